@@ -0,0 +1,6 @@
+-- Migration to add provider selection to the user_settings table
+-- This should be run on existing databases so users can pick OpenAI, Anthropic
+-- or any OpenAI-compatible server (e.g. a local Ollama/llama.cpp instance)
+
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS ai_provider TEXT DEFAULT 'openai';
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS ai_base_url TEXT;
@@ -0,0 +1,48 @@
+-- Migration to add token usage tracking
+-- This should be run on existing databases so the suggest Edge Function can
+-- record tokens and estimated cost per request for the usage dashboard
+
+-- Create the ai_usage table: one row per provider request, written by the suggest Edge Function
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  document_id UUID REFERENCES documents(id) ON DELETE SET NULL, -- Usage outlives deleted documents
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  suggestion_type TEXT NOT NULL DEFAULT 'general',
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  estimated_cost NUMERIC(12, 6), -- USD at list prices; NULL when the model's price is unknown
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_user_id_created_at ON ai_usage(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_document_id ON ai_usage(document_id);
+
+ALTER TABLE ai_usage ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own usage" ON ai_usage;
+
+-- AI usage policies: read-only for users, rows are only inserted with the service role
+CREATE POLICY "Users can view their own usage"
+ON ai_usage
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Daily totals per document and model for the usage dashboard.
+-- security_invoker applies the ai_usage policies to whoever queries the view.
+CREATE OR REPLACE VIEW ai_usage_daily
+WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  document_id,
+  model,
+  date_trunc('day', created_at)::date AS day,
+  COUNT(*) AS requests,
+  SUM(prompt_tokens) AS prompt_tokens,
+  SUM(completion_tokens) AS completion_tokens,
+  SUM(estimated_cost) AS estimated_cost,
+  COUNT(*) FILTER (WHERE estimated_cost IS NULL) AS unpriced_requests
+FROM ai_usage
+GROUP BY user_id, document_id, model, date_trunc('day', created_at)::date;
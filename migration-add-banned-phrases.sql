@@ -0,0 +1,5 @@
+-- Migration to add a personal banned-phrase list to the user_settings table
+-- This should be run on existing databases so writers can flag phrases they
+-- never want to use, with preferred replacements
+
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS banned_phrases JSONB NOT NULL DEFAULT '[]'::jsonb;
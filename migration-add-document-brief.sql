@@ -0,0 +1,5 @@
+-- Migration to add a writing brief to the documents table
+-- This should be run on existing databases so writers can describe each
+-- document's audience, purpose and tone for AI suggestions
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS brief JSONB;
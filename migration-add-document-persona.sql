@@ -0,0 +1,5 @@
+-- Migration to add a reviewer persona to the documents table
+-- This should be run on existing databases so each document remembers which
+-- kind of editing pass (copy, line or developmental) suggestions use
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS persona TEXT;
@@ -0,0 +1,71 @@
+-- Migration to save AI suggestions with their document
+-- This should be run on existing databases so suggestions survive page reloads
+-- and reopening a document instead of being requested (and billed) again
+
+-- Create the document_suggestions table: AI suggestions saved with their document
+CREATE TABLE IF NOT EXISTS document_suggestions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID REFERENCES documents(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  suggestion_id TEXT NOT NULL, -- The id the editor gave the suggestion
+  original_text TEXT NOT NULL,
+  suggested_text TEXT NOT NULL,
+  explanation TEXT NOT NULL DEFAULT '',
+  alternatives JSONB NOT NULL DEFAULT '[]'::jsonb,
+  theme TEXT,
+  model TEXT, -- e.g. 'openai:gpt-4o'
+  anchor_start INTEGER, -- Offsets into the document's plain text when the suggestion was made
+  anchor_end INTEGER,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'accepted', 'rejected', 'stale')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (document_id, suggestion_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_suggestions_document_id_status ON document_suggestions(document_id, status);
+
+DROP TRIGGER IF EXISTS update_document_suggestions_updated_at ON document_suggestions;
+CREATE TRIGGER update_document_suggestions_updated_at
+    BEFORE UPDATE ON document_suggestions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE document_suggestions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can save suggestions for their own documents" ON document_suggestions;
+DROP POLICY IF EXISTS "Users can view their own saved suggestions" ON document_suggestions;
+DROP POLICY IF EXISTS "Users can update their own saved suggestions" ON document_suggestions;
+DROP POLICY IF EXISTS "Users can delete their own saved suggestions" ON document_suggestions;
+
+-- Saved suggestion policies
+CREATE POLICY "Users can save suggestions for their own documents"
+ON document_suggestions
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM documents
+    WHERE documents.id = document_id
+    AND documents.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can view their own saved suggestions"
+ON document_suggestions
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own saved suggestions"
+ON document_suggestions
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own saved suggestions"
+ON document_suggestions
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
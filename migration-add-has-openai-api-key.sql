@@ -0,0 +1,5 @@
+-- Migration to let the client check for an API key without selecting it
+-- The key itself is now only read by the suggest Edge Function
+
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS has_openai_api_key BOOLEAN
+  GENERATED ALWAYS AS (openai_api_key IS NOT NULL AND length(trim(openai_api_key)) > 0) STORED;
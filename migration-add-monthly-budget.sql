@@ -0,0 +1,5 @@
+-- Migration to add a monthly AI budget to the user_settings table
+-- This should be run on existing databases, after migration-add-ai-usage.sql,
+-- so users can cap what suggestions cost them each month
+
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS monthly_budget_usd NUMERIC(10, 2);
@@ -0,0 +1,7 @@
+-- Migration to add prompt templates and house style rules to the user_settings table
+-- This should be run on existing databases so users can replace the built-in
+-- suggestion prompt with their own
+
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS prompt_templates JSONB NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS active_prompt_template_id TEXT;
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS style_rules JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,42 @@
+-- Migration to store one API key per provider instead of a single shared key
+-- This should be run on existing databases so a key entered for one provider is
+-- never sent to another, e.g. an OpenAI key to Anthropic or to a custom server
+
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS anthropic_api_key_encrypted TEXT;
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS openai_compatible_api_key_encrypted TEXT;
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS has_anthropic_api_key BOOLEAN
+  GENERATED ALWAYS AS (anthropic_api_key_encrypted IS NOT NULL) STORED;
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS has_openai_compatible_api_key BOOLEAN
+  GENERATED ALWAYS AS (openai_compatible_api_key_encrypted IS NOT NULL) STORED;
+
+-- Keys are bound to the user, not the column, so they can be moved as they are.
+-- The shared key belongs to Anthropic when Anthropic is selected. Keys are not
+-- moved to OpenAI-compatible servers: users enter one for their server if it
+-- needs it.
+UPDATE user_settings
+SET anthropic_api_key_encrypted = openai_api_key_encrypted,
+    openai_api_key_encrypted = NULL
+WHERE ai_provider = 'anthropic' AND openai_api_key_encrypted IS NOT NULL;
+
+-- API keys can only be written through the api-key Edge Function (service role).
+-- A key entered for an OpenAI-compatible server is never sent to a different one.
+CREATE OR REPLACE FUNCTION protect_encrypted_api_key()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.role() IS DISTINCT FROM 'service_role' AND current_user NOT IN ('postgres', 'supabase_admin') THEN
+        IF TG_OP = 'INSERT' THEN
+            NEW.openai_api_key_encrypted = NULL;
+            NEW.anthropic_api_key_encrypted = NULL;
+            NEW.openai_compatible_api_key_encrypted = NULL;
+        ELSE
+            NEW.openai_api_key_encrypted = OLD.openai_api_key_encrypted;
+            NEW.anthropic_api_key_encrypted = OLD.anthropic_api_key_encrypted;
+            NEW.openai_compatible_api_key_encrypted = OLD.openai_compatible_api_key_encrypted;
+        END IF;
+    END IF;
+    IF TG_OP = 'UPDATE' AND NEW.ai_base_url IS DISTINCT FROM OLD.ai_base_url THEN
+        NEW.openai_compatible_api_key_encrypted = NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
@@ -0,0 +1,8 @@
+-- Migration to add quote anchors to saved suggestions
+-- This should be run on existing databases so saved suggestions keep the text
+-- around them and can be found again after the document has been edited
+
+-- Anchor: original_text plus the text around it and its last known offsets
+-- in the document's plain text (see src/lib/textAnchor.ts)
+ALTER TABLE document_suggestions ADD COLUMN IF NOT EXISTS anchor_prefix TEXT;
+ALTER TABLE document_suggestions ADD COLUMN IF NOT EXISTS anchor_suffix TEXT;
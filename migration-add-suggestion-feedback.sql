@@ -0,0 +1,47 @@
+-- Migration to add suggestion feedback
+-- This should be run on existing databases so accepted and rejected
+-- suggestions are remembered and themes the writer keeps rejecting stop being suggested
+
+-- Create the suggestion_feedback table: one row per accepted or rejected AI suggestion
+CREATE TABLE IF NOT EXISTS suggestion_feedback (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  document_id UUID REFERENCES documents(id) ON DELETE SET NULL, -- Feedback outlives deleted documents
+  theme TEXT NOT NULL DEFAULT 'general',
+  original_text TEXT NOT NULL,
+  suggested_text TEXT NOT NULL,
+  explanation TEXT NOT NULL DEFAULT '',
+  model TEXT, -- e.g. 'openai:gpt-4o'
+  outcome TEXT NOT NULL CHECK (outcome IN ('accepted', 'rejected')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_suggestion_feedback_user_id_created_at ON suggestion_feedback(user_id, created_at DESC);
+
+ALTER TABLE suggestion_feedback ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can record their own suggestion feedback" ON suggestion_feedback;
+DROP POLICY IF EXISTS "Users can view their own suggestion feedback" ON suggestion_feedback;
+
+-- Suggestion feedback policies: recorded from the editor, against the user's own documents only
+CREATE POLICY "Users can record their own suggestion feedback"
+ON suggestion_feedback
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    document_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM documents
+      WHERE documents.id = document_id
+      AND documents.user_id = auth.uid()
+    )
+  )
+);
+
+CREATE POLICY "Users can view their own suggestion feedback"
+ON suggestion_feedback
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
@@ -0,0 +1,51 @@
+-- Migration to store provider API keys envelope-encrypted instead of in plaintext
+-- Keys are encrypted by the api-key and suggest Edge Functions with the
+-- API_KEY_ENCRYPTION_KEY secret; see docs/AI_PROXY.md
+
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS openai_api_key_encrypted TEXT;
+
+-- Keep reporting unmigrated plaintext keys until they have been encrypted
+ALTER TABLE user_settings DROP COLUMN IF EXISTS has_openai_api_key;
+ALTER TABLE user_settings ADD COLUMN has_openai_api_key BOOLEAN
+  GENERATED ALWAYS AS (
+    openai_api_key_encrypted IS NOT NULL
+    OR (openai_api_key IS NOT NULL AND length(trim(openai_api_key)) > 0)
+  ) STORED;
+
+-- API keys can only be written through the api-key Edge Function (service role)
+CREATE OR REPLACE FUNCTION protect_encrypted_api_key()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.role() IS DISTINCT FROM 'service_role' AND current_user NOT IN ('postgres', 'supabase_admin') THEN
+        IF TG_OP = 'INSERT' THEN
+            NEW.openai_api_key_encrypted = NULL;
+        ELSE
+            NEW.openai_api_key_encrypted = OLD.openai_api_key_encrypted;
+        END IF;
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS protect_user_settings_api_key ON user_settings;
+CREATE TRIGGER protect_user_settings_api_key
+    BEFORE INSERT OR UPDATE ON user_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION protect_encrypted_api_key();
+
+-- After deploying the functions, encrypt the remaining plaintext keys:
+--
+--   curl -X POST "$SUPABASE_URL/functions/v1/api-key" \
+--     -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY" \
+--     -H "Content-Type: application/json" \
+--     -d '{"action": "encrypt-legacy"}'
+--
+-- Once this returns no failures and the query below returns 0, drop the
+-- plaintext column:
+--
+--   SELECT count(*) FROM user_settings WHERE openai_api_key IS NOT NULL;
+--
+--   ALTER TABLE user_settings DROP COLUMN has_openai_api_key;
+--   ALTER TABLE user_settings DROP COLUMN openai_api_key;
+--   ALTER TABLE user_settings ADD COLUMN has_openai_api_key BOOLEAN
+--     GENERATED ALWAYS AS (openai_api_key_encrypted IS NOT NULL) STORED;
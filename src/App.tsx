@@ -5,7 +5,6 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
 import ProtectedRoute from "@/components/ProtectedRoute";
-import ApiKeyProtectedRoute from "@/components/ApiKeyProtectedRoute";
 import Home from "./pages/Home";
 import EditorPage from "./pages/Editor";
 import Settings from "./pages/Settings";
@@ -34,24 +33,24 @@ const App = () => (
             <Route path="/update-password" element={<UpdatePassword />} />
             <Route path="/shared/:shareToken" element={<SharedDocumentPage />} />
             
-            {/* Settings route - requires auth but not API key */}
+            {/* Authenticated routes. An API key is optional: without one the
+                editor still runs its offline writing checks */}
             <Route path="/settings" element={
               <ProtectedRoute>
                 <Settings />
               </ProtectedRoute>
             } />
             
-            {/* Protected routes that require API key */}
             <Route path="/home" element={
-              <ApiKeyProtectedRoute>
+              <ProtectedRoute>
                 <Home />
-              </ApiKeyProtectedRoute>
+              </ProtectedRoute>
             } />
             <Route path="/" element={<Landing />} />
             <Route path="/editor/:documentId" element={
-              <ApiKeyProtectedRoute>
+              <ProtectedRoute>
                 <EditorPage />
-              </ApiKeyProtectedRoute>
+              </ProtectedRoute>
             } />
             
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { Ban, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  MAX_BANNED_PHRASES,
+  MAX_BANNED_PHRASE_LENGTH,
+  normalizeBannedPhrases,
+  type BannedPhrase,
+} from '@shared/ai/bannedPhrases';
+
+interface BannedPhrasesEditorProps {
+  phrases?: BannedPhrase[];
+  onSave: (changes: { banned_phrases: BannedPhrase[] }) => Promise<boolean>;
+  isSaving?: boolean;
+}
+
+const BannedPhrasesEditor = ({ phrases, onSave, isSaving = false }: BannedPhrasesEditorProps) => {
+  const [draft, setDraft] = useState<BannedPhrase[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+
+  // Reset the draft whenever the saved list changes, e.g. once it has loaded
+  useEffect(() => {
+    setDraft(normalizeBannedPhrases(phrases));
+    setIsDirty(false);
+  }, [phrases]);
+
+  const updateRow = (index: number, changes: Partial<BannedPhrase>) => {
+    setDraft(prev => prev.map((row, rowIndex) => (rowIndex === index ? { ...row, ...changes } : row)));
+    setIsDirty(true);
+  };
+
+  const handleAdd = () => {
+    setDraft(prev => [...prev, { phrase: '', replacement: '' }]);
+    setIsDirty(true);
+  };
+
+  const handleRemove = (index: number) => {
+    setDraft(prev => prev.filter((_, rowIndex) => rowIndex !== index));
+    setIsDirty(true);
+  };
+
+  // Empty rows are dropped on save
+  const handleSave = async () => {
+    const saved = await onSave({ banned_phrases: normalizeBannedPhrases(draft) });
+    if (saved) {
+      setIsDirty(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="pb-6">
+        <CardTitle className="flex items-center gap-3 text-lg">
+          <Ban className="h-5 w-5" />
+          Banned Phrases
+        </CardTitle>
+        <CardDescription className="text-sm leading-relaxed">
+          Phrases you never want to write, with what to use instead. They are flagged as you type, and AI suggestions are told to avoid them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {draft.length === 0 ? (
+          <p className="text-sm text-gray-500">No banned phrases yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {draft.map((row, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  value={row.phrase}
+                  onChange={(e) => updateRow(index, { phrase: e.target.value })}
+                  placeholder="e.g. utilize"
+                  maxLength={MAX_BANNED_PHRASE_LENGTH}
+                  aria-label="Banned phrase"
+                  className="h-10"
+                />
+                <span className="text-sm text-gray-400">→</span>
+                <Input
+                  value={row.replacement ?? ''}
+                  onChange={(e) => updateRow(index, { replacement: e.target.value })}
+                  placeholder="Replacement (optional)"
+                  maxLength={MAX_BANNED_PHRASE_LENGTH}
+                  aria-label="Replacement"
+                  className="h-10"
+                />
+                <Button variant="ghost" size="icon" className="h-10 w-10 shrink-0" onClick={() => handleRemove(index)} title="Remove phrase">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-between">
+          <Button variant="outline" size="sm" onClick={handleAdd} disabled={draft.length >= MAX_BANNED_PHRASES}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add phrase
+          </Button>
+          <Button onClick={handleSave} disabled={!isDirty || isSaving} className="h-11">
+            Save phrases
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BannedPhrasesEditor;
@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { DOCUMENT_BRIEF_FIELDS, MAX_BRIEF_FIELD_LENGTH, type DocumentBrief } from '@shared/ai/documentBrief';
+
+interface DocumentBriefDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  brief: DocumentBrief | null | undefined;
+  onSave: (brief: DocumentBrief) => void;
+  isSaving?: boolean;
+}
+
+const DocumentBriefDialog = ({ open, onOpenChange, brief, onSave, isSaving = false }: DocumentBriefDialogProps) => {
+  const [draft, setDraft] = useState<DocumentBrief>({});
+
+  // Start from the saved brief every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setDraft(brief ?? {});
+    }
+  }, [open, brief]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(draft);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Writing brief</DialogTitle>
+            <DialogDescription>
+              Tell the AI what this document is for. Suggestions will respect it. Every field is optional.
+            </DialogDescription>
+          </DialogHeader>
+
+          {DOCUMENT_BRIEF_FIELDS.map(field => (
+            <div key={field.key} className="space-y-2">
+              <Label htmlFor={`brief-${field.key}`}>{field.label}</Label>
+              <Input
+                id={`brief-${field.key}`}
+                value={draft[field.key] ?? ''}
+                onChange={(e) => setDraft(prev => ({ ...prev, [field.key]: e.target.value }))}
+                placeholder={field.placeholder}
+                maxLength={MAX_BRIEF_FIELD_LENGTH}
+              />
+            </div>
+          ))}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save brief'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DocumentBriefDialog;
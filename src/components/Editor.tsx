@@ -1,6 +1,31 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useToast } from '@/hooks/use-toast';
 import { type Suggestion } from '@/components/SuggestionPanel';
+import { getSuggestionOptions, wrapAlternativeIndex } from '@/lib/suggestionAlternatives';
+import { LINT_THEME, STYLE_GUIDE_THEME } from '@/lib/lint/lintEngine';
+import { AI_FLUFF_THEME } from '@/lib/lint/aiFluff';
+import { rateSentence, splitSentences, type HeatmapMode } from '@/lib/readability';
+import { findAnchoredRange, mapText, rangeForOffsets, replaceRangeWithPreview, stripSuggestionMarkup, wrapRange } from '@/lib/suggestionMarkup';
+
+// Offline checks are underlined and marked in their own colors, apart from
+// the blue AI suggestions
+const OFFLINE_CHECK_STYLES: Record<string, { highlight: string; indicator: string; title: string }> = {
+  [LINT_THEME]: {
+    highlight: 'suggestion-highlight-lint hover:bg-amber-50 dark:hover:bg-amber-900/20',
+    indicator: 'bg-amber-500 hover:bg-amber-600',
+    title: 'Click to see writing check',
+  },
+  [AI_FLUFF_THEME]: {
+    highlight: 'suggestion-highlight-fluff hover:bg-rose-50 dark:hover:bg-rose-900/20',
+    indicator: 'bg-rose-500 hover:bg-rose-600',
+    title: 'Click to see AI fluff',
+  },
+  [STYLE_GUIDE_THEME]: {
+    highlight: 'suggestion-highlight-style-guide hover:bg-violet-50 dark:hover:bg-violet-900/20',
+    indicator: 'bg-violet-500 hover:bg-violet-600',
+    title: 'Click to see banned phrase',
+  },
+};
 
 interface EditorProps {
   content: string;
@@ -10,8 +35,13 @@ interface EditorProps {
   blueIndicatorsVisible?: boolean;
   readOnly?: boolean;
   showingDiffFor?: string | null;
-  onAcceptSuggestion?: (suggestion: Suggestion) => void;
+  // Which of the diffed suggestion's rewrites is shown; ←/→ cycle through them
+  activeAlternativeIndex?: number;
+  onAlternativeChange?: (index: number) => void;
+  onAcceptSuggestion?: (suggestion: Suggestion, suggestedText: string) => void;
   onRejectSuggestion?: (suggestion: Suggestion) => void;
+  // Tint long or hard sentences; null turns the heatmap off
+  heatmapMode?: HeatmapMode | null;
 }
 
 // Helper functions for diffing (adapted from Landing.tsx)
@@ -129,90 +159,114 @@ const Editor = ({
   blueIndicatorsVisible = true, 
   readOnly = false,
   showingDiffFor = null,
+  activeAlternativeIndex = 0,
+  onAlternativeChange,
   onAcceptSuggestion,
-  onRejectSuggestion
+  onRejectSuggestion,
+  heatmapMode = null
 }: EditorProps) => {
   const { toast } = useToast();
   const editorRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [currentVersion, setCurrentVersion] = useState(content);
-
-  // Function to render content with inline diffs for suggestions
-  const renderContentWithDiffs = (htmlContent: string) => {
+  // The diff (suggestion and rewrite) currently rendered into the editor
+  const renderedDiffRef = useRef<string | null>(null);
+  const diffKey = showingDiffFor ? `${showingDiffFor}:${activeAlternativeIndex}` : '';
+
+  // Renders the content with a highlight for every suggestion and, if one is
+  // being previewed, its diff and buttons in place of its text. Suggestions are
+  // found from their anchors in the editor's text, so only the occurrence each
+  // one was made for is marked and the HTML's tags are never touched.
+  const renderContentWithDiffs = (editor: HTMLDivElement) => {
+    editor.innerHTML = content;
     if (!suggestions.length) {
-      return { __html: htmlContent };
+      return;
     }
 
-    let modifiedContent = htmlContent;
-
     // First, highlight all text that has suggestions (but isn't currently showing diff)
     suggestions.forEach(suggestion => {
-      if (suggestion.id !== showingDiffFor) {
-        const originalTextEscaped = suggestion.originalText.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-        const regex = new RegExp(originalTextEscaped, 'g');
-        modifiedContent = modifiedContent.replace(regex, `<span class="suggestion-highlight cursor-pointer hover:bg-blue-50 dark:hover:bg-blue-900/20 transition-colors duration-200" data-suggestion-id="${suggestion.id}" title="Click to see AI suggestion">${suggestion.originalText}</span>`);
-      }
+      if (suggestion.id === showingDiffFor) return;
+
+      const range = findAnchoredRange(editor, suggestion.anchor, suggestion.originalText);
+      if (!range) return;
+
+      const offlineStyle = suggestion.theme ? OFFLINE_CHECK_STYLES[suggestion.theme] : undefined;
+      wrapRange(range, () => {
+        const highlight = document.createElement('span');
+        highlight.className = `suggestion-highlight ${offlineStyle?.highlight ?? 'hover:bg-blue-50 dark:hover:bg-blue-900/20'} cursor-pointer transition-colors duration-200`;
+        highlight.dataset.suggestionId = suggestion.id;
+        highlight.title = offlineStyle?.title ?? 'Click to see AI suggestion';
+        return highlight;
+      });
     });
 
-    // Then, if we have an active diff, replace it
-    if (showingDiffFor) {
-      const activeSuggestion = suggestions.find(s => s.id === showingDiffFor);
-      if (activeSuggestion) {
-        // Remove the highlight for the active suggestion and replace with diff
-        const highlightRegex = new RegExp(`<span class="suggestion-highlight[^"]*" data-suggestion-id="${activeSuggestion.id}"[^>]*>${activeSuggestion.originalText.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}</span>`, 'g');
-        
-        // Create the diff display HTML
-        const originalWords = splitText(activeSuggestion.originalText);
-        const suggestedWords = splitText(activeSuggestion.suggestedText);
-        const lcs = computeLCS(originalWords, suggestedWords);
-        const diffs = generateDiff(originalWords, suggestedWords, lcs);
-        
-        let diffHtml = '';
-        diffs.forEach(([type, text]) => {
-          if (type === 0) { // Common
-            diffHtml += text;
-          } else if (type === -1) { // Deleted
-            if (text.trim() === '' && text.includes('\n')) {
-              diffHtml += text;
-            } else if (text.trim() === '') {
-              diffHtml += text;
-            } else {
-              diffHtml += `<span class="bg-red-500/20 dark:bg-red-500/30 line-through decoration-red-500/70 dark:decoration-red-400/70 rounded-sm px-0.5 mx-[-0.5px]">${text}</span>`;
-            }
-          } else { // Added (type === 1)
-            if (text.trim() === '' && text.includes('\n')) {
-              diffHtml += text;
-            } else if (text.trim() === '') {
-              diffHtml += text;
-            } else {
-              diffHtml += `<span class="bg-green-500/20 dark:bg-green-500/30 rounded-sm px-0.5 mx-[-0.5px]">${text}</span>`;
-            }
-          }
-        });
-        
-        // Add accept/reject buttons after the diff
-        const buttonsHtml = `
-          <span class="inline-flex items-center gap-1 ml-2 suggestion-actions" data-suggestion-id="${activeSuggestion.id}">
-            <button class="accept-suggestion bg-green-500 hover:bg-green-600 text-white text-xs px-2 py-1 rounded" data-suggestion-id="${activeSuggestion.id}">Accept</button>
-            <button class="reject-suggestion bg-red-500 hover:bg-red-600 text-white text-xs px-2 py-1 rounded" data-suggestion-id="${activeSuggestion.id}">Reject</button>
-          </span>
-        `;
-        
-        modifiedContent = modifiedContent.replace(highlightRegex, `<span class="suggestion-diff" data-suggestion-id="${activeSuggestion.id}">${diffHtml}</span>${buttonsHtml}`);
-      }
+    // Then, if we have an active diff, replace its text with the diff
+    const activeSuggestion = showingDiffFor ? suggestions.find(s => s.id === showingDiffFor) : undefined;
+    if (!activeSuggestion) {
+      return;
     }
-    
-    return { __html: modifiedContent };
+    const range = findAnchoredRange(editor, activeSuggestion.anchor, activeSuggestion.originalText);
+    if (!range) {
+      return;
+    }
+
+    // Create the diff display for the rewrite being previewed
+    const options = getSuggestionOptions(activeSuggestion);
+    const selectedIndex = wrapAlternativeIndex(activeSuggestion, activeAlternativeIndex);
+    const originalWords = splitText(activeSuggestion.originalText);
+    const suggestedWords = splitText(options[selectedIndex]);
+    const lcs = computeLCS(originalWords, suggestedWords);
+    const diffs = generateDiff(originalWords, suggestedWords, lcs);
+
+    const diffElement = document.createElement('span');
+    diffElement.className = 'suggestion-diff';
+    diffElement.dataset.suggestionId = activeSuggestion.id;
+    diffs.forEach(([type, text]) => {
+      if (type === 0 || text.trim() === '') { // Common or whitespace
+        diffElement.append(text);
+        return;
+      }
+      const part = document.createElement('span');
+      part.className = type === -1
+        ? 'bg-red-500/20 dark:bg-red-500/30 line-through decoration-red-500/70 dark:decoration-red-400/70 rounded-sm px-0.5 mx-[-0.5px]'
+        : 'bg-green-500/20 dark:bg-green-500/30 rounded-sm px-0.5 mx-[-0.5px]';
+      part.textContent = text;
+      diffElement.append(part);
+    });
+
+    // Let the writer step through the other rewrites, if there are any
+    const alternativesHtml = options.length > 1 ? `
+        <button class="previous-alternative bg-gray-200 hover:bg-gray-300 text-gray-700 text-xs px-2 py-1 rounded" data-suggestion-id="${activeSuggestion.id}" title="Previous rewrite (←)">‹</button>
+        <span class="alternative-count text-xs text-gray-500">${selectedIndex + 1}/${options.length}</span>
+        <button class="next-alternative bg-gray-200 hover:bg-gray-300 text-gray-700 text-xs px-2 py-1 rounded" data-suggestion-id="${activeSuggestion.id}" title="Next rewrite (→)">›</button>
+    ` : '';
+
+    // Add accept/reject buttons after the diff. A check that only flags
+    // the text has nothing to accept, so it can just be dismissed.
+    const isNoteOnly = options[selectedIndex] === activeSuggestion.originalText;
+    const buttonsHtml = isNoteOnly ? `
+      <span class="inline-flex items-center gap-1 ml-2 suggestion-actions" data-suggestion-id="${activeSuggestion.id}">
+        <button class="reject-suggestion bg-gray-200 hover:bg-gray-300 text-gray-700 text-xs px-2 py-1 rounded" data-suggestion-id="${activeSuggestion.id}">Dismiss</button>
+      </span>
+    ` : `
+      <span class="inline-flex items-center gap-1 ml-2 suggestion-actions" data-suggestion-id="${activeSuggestion.id}">${alternativesHtml}
+        <button class="accept-suggestion bg-green-500 hover:bg-green-600 text-white text-xs px-2 py-1 rounded" data-suggestion-id="${activeSuggestion.id}">Accept</button>
+        <button class="reject-suggestion bg-red-500 hover:bg-red-600 text-white text-xs px-2 py-1 rounded" data-suggestion-id="${activeSuggestion.id}">Reject</button>
+      </span>
+    `;
+
+    replaceRangeWithPreview(range, diffElement);
+    diffElement.insertAdjacentHTML('afterend', buttonsHtml);
   };
 
-  // Update the rendered content when the content prop changes
+  // Update the rendered content when the content prop or the previewed rewrite changes
   useEffect(() => {
-    if (editorRef.current && content !== currentVersion) {
-      const contentToRender = renderContentWithDiffs(content);
-      editorRef.current.innerHTML = contentToRender.__html;
+    if (editorRef.current && (content !== currentVersion || diffKey !== renderedDiffRef.current)) {
+      renderContentWithDiffs(editorRef.current);
+      renderedDiffRef.current = diffKey;
       setCurrentVersion(content);
     }
-  }, [content, currentVersion, showingDiffFor, suggestions]);
+  }, [content, currentVersion, diffKey, showingDiffFor, suggestions]);
 
   // Handle clicks on accept/reject buttons
   useEffect(() => {
@@ -230,7 +284,15 @@ const Editor = ({
       if (target.classList.contains('accept-suggestion') && onAcceptSuggestion) {
         e.preventDefault();
         e.stopPropagation();
-        onAcceptSuggestion(suggestion);
+        onAcceptSuggestion(suggestion, getSuggestionOptions(suggestion)[wrapAlternativeIndex(suggestion, activeAlternativeIndex)]);
+      } else if (target.classList.contains('previous-alternative') && onAlternativeChange) {
+        e.preventDefault();
+        e.stopPropagation();
+        onAlternativeChange(wrapAlternativeIndex(suggestion, activeAlternativeIndex - 1));
+      } else if (target.classList.contains('next-alternative') && onAlternativeChange) {
+        e.preventDefault();
+        e.stopPropagation();
+        onAlternativeChange(wrapAlternativeIndex(suggestion, activeAlternativeIndex + 1));
       } else if (target.classList.contains('reject-suggestion') && onRejectSuggestion) {
         e.preventDefault();
         e.stopPropagation();
@@ -245,7 +307,7 @@ const Editor = ({
         editorRef.current.removeEventListener('click', handleButtonClick);
       }
     };
-  }, [suggestions, onAcceptSuggestion, onRejectSuggestion]);
+  }, [suggestions, activeAlternativeIndex, onAlternativeChange, onAcceptSuggestion, onRejectSuggestion]);
 
   // Handle clicks on text that has suggestions
   useEffect(() => {
@@ -307,7 +369,7 @@ const Editor = ({
       hasEditor: !!editorRef.current,
       hasContainer: !!containerRef.current,
       hasClickHandler: !!onSuggestionIndicatorClick,
-      suggestions: suggestions.map(s => ({ id: s.id, originalText: s.originalText, hasPosition: !!s.position }))
+      suggestions: suggestions.map(s => ({ id: s.id, originalText: s.originalText, hasAnchor: !!s.anchor }))
     });
 
     if (!editorRef.current || !containerRef.current || !onSuggestionIndicatorClick) {
@@ -333,56 +395,37 @@ const Editor = ({
       console.log(`🎯 Editor: Processing suggestion ${index}:`, {
         id: suggestion.id,
         originalText: suggestion.originalText.substring(0, 50) + '...',
-        hasPosition: !!suggestion.position,
-        position: suggestion.position
+        hasAnchor: !!suggestion.anchor,
+        anchor: suggestion.anchor
       });
 
-      if (!suggestion.position) {
-        console.log(`❌ Editor: Suggestion ${index} has no position data`);
-        return;
-      }
-
       // Find the position in the editor content to determine which line to place the indicator on
       try {
-        const plainText = editorRef.current!.textContent || '';
-        const targetPosition = suggestion.position.start;
-        
-        // Create a range to find the element containing the target position
-        const range = document.createRange();
-        const walker = document.createTreeWalker(
-          editorRef.current!,
-          NodeFilter.SHOW_TEXT,
-          null
-        );
-
-        let currentPos = 0;
-        let targetElement: Element | null = null;
+        const range = findAnchoredRange(editorRef.current!, suggestion.anchor, suggestion.originalText);
 
-        while (walker.nextNode()) {
-          const textNode = walker.currentNode as Text;
-          const nodeLength = textNode.textContent?.length || 0;
-          
-          if (currentPos + nodeLength >= targetPosition) {
-            // Find the closest block-level element (p, div, etc.)
-            let element = textNode.parentElement;
-            while (element && element !== editorRef.current) {
-              const style = window.getComputedStyle(element);
-              if (style.display === 'block' || element.tagName.toLowerCase() === 'p') {
-                targetElement = element;
-                break;
-              }
-              element = element.parentElement;
-            }
+        // Find the closest block-level element (p, div, etc.)
+        let targetElement: Element | null = null;
+        let element = range?.startContainer.parentElement ?? null;
+        while (element && element !== editorRef.current) {
+          const style = window.getComputedStyle(element);
+          if (style.display === 'block' || element.tagName.toLowerCase() === 'p') {
+            targetElement = element;
             break;
           }
-          currentPos += nodeLength;
+          element = element.parentElement;
         }
 
         if (targetElement && containerRef.current) {
           // Create the indicator element positioned relative to the container
           const indicator = document.createElement('div');
-          indicator.className = 'suggestion-indicator absolute w-3 h-3 bg-blue-500 rounded-full cursor-pointer hover:bg-blue-600 transition-colors z-10';
-          indicator.title = 'Click to see AI suggestion';
+          const offlineStyle = suggestion.theme ? OFFLINE_CHECK_STYLES[suggestion.theme] : undefined;
+          if (offlineStyle) {
+            indicator.className = `suggestion-indicator absolute w-3 h-3 ${offlineStyle.indicator} rounded-full cursor-pointer transition-colors z-10`;
+            indicator.title = offlineStyle.title;
+          } else {
+            indicator.className = 'suggestion-indicator absolute w-3 h-3 bg-blue-500 rounded-full cursor-pointer hover:bg-blue-600 transition-colors z-10';
+            indicator.title = 'Click to see AI suggestion';
+          }
           
           // Add click handler
           indicator.addEventListener('click', (e) => {
@@ -422,9 +465,53 @@ const Editor = ({
     };
   }, []);
 
+  // Draw the sentence heatmap as tinted boxes behind the text, so the stored
+  // HTML and the suggestion highlights are left alone
+  useEffect(() => {
+    const editor = editorRef.current;
+    const container = containerRef.current;
+    if (!editor || !container) return;
+
+    const drawHeatmap = () => {
+      container.querySelectorAll('.heatmap-tint').forEach(tint => tint.remove());
+      if (!heatmapMode) return;
+
+      // The text leaves out the accept/reject buttons and breaks sentences at
+      // the end of each block
+      const textMap = mapText(editor);
+
+      const containerRect = container.getBoundingClientRect();
+      splitSentences(textMap.text).forEach(sentence => {
+        const difficulty = rateSentence(sentence.text, heatmapMode);
+        if (!difficulty) return;
+
+        const range = rangeForOffsets(textMap, sentence.start, sentence.start + sentence.text.length);
+        if (!range) return;
+
+        Array.from(range.getClientRects()).forEach(rect => {
+          const tint = document.createElement('div');
+          tint.className = `heatmap-tint heatmap-${difficulty}`;
+          tint.style.left = `${rect.left - containerRect.left}px`;
+          tint.style.top = `${rect.top - containerRect.top}px`;
+          tint.style.width = `${rect.width}px`;
+          tint.style.height = `${rect.height}px`;
+          container.appendChild(tint);
+        });
+      });
+    };
+
+    drawHeatmap();
+    window.addEventListener('resize', drawHeatmap);
+    return () => {
+      window.removeEventListener('resize', drawHeatmap);
+      container.querySelectorAll('.heatmap-tint').forEach(tint => tint.remove());
+    };
+  }, [heatmapMode, content, currentVersion, diffKey, suggestions]);
+
   const handleInput = () => {
     if (editorRef.current && !readOnly) {
-      const newContent = editorRef.current.innerHTML;
+      // Highlights and the diff preview are only for display
+      const newContent = stripSuggestionMarkup(editorRef.current);
       onContentChange(newContent);
       setCurrentVersion(newContent);
     }
@@ -443,9 +530,13 @@ const Editor = ({
     if (showingDiffFor && suggestions.length > 0) {
       const activeSuggestion = suggestions.find(s => s.id === showingDiffFor);
       if (activeSuggestion) {
+        const options = getSuggestionOptions(activeSuggestion);
         if (e.key === 'Enter' && onAcceptSuggestion) {
           e.preventDefault();
-          onAcceptSuggestion(activeSuggestion);
+          onAcceptSuggestion(activeSuggestion, options[wrapAlternativeIndex(activeSuggestion, activeAlternativeIndex)]);
+        } else if ((e.key === 'ArrowLeft' || e.key === 'ArrowRight') && options.length > 1 && onAlternativeChange) {
+          e.preventDefault();
+          onAlternativeChange(wrapAlternativeIndex(activeSuggestion, activeAlternativeIndex + (e.key === 'ArrowRight' ? 1 : -1)));
         } else if (e.key === 'Escape' && onRejectSuggestion) {
           e.preventDefault();
           onRejectSuggestion(activeSuggestion);
@@ -487,6 +578,36 @@ const Editor = ({
         .suggestion-highlight:hover {
           background-color: rgba(59, 130, 246, 0.1);
         }
+        .suggestion-highlight-lint {
+          border-bottom: 2px dotted #f59e0b;
+        }
+        .suggestion-highlight-lint:hover {
+          background-color: rgba(245, 158, 11, 0.1);
+        }
+        .suggestion-highlight-fluff {
+          border-bottom: 2px dotted #f43f5e;
+        }
+        .suggestion-highlight-fluff:hover {
+          background-color: rgba(244, 63, 94, 0.1);
+        }
+        .suggestion-highlight-style-guide {
+          border-bottom: 2px dotted #8b5cf6;
+        }
+        .suggestion-highlight-style-guide:hover {
+          background-color: rgba(139, 92, 246, 0.1);
+        }
+        .heatmap-tint {
+          position: absolute;
+          pointer-events: none;
+          mix-blend-mode: multiply;
+          border-radius: 2px;
+        }
+        .heatmap-hard {
+          background-color: rgba(250, 204, 21, 0.35);
+        }
+        .heatmap-very-hard {
+          background-color: rgba(248, 113, 113, 0.3);
+        }
         .editor[contenteditable="true"] .suggestion-actions {
           pointer-events: auto;
           position: relative;
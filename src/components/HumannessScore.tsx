@@ -0,0 +1,32 @@
+import React, { useMemo } from 'react';
+import { toPlainText } from '@shared/ai/chunking';
+import { scoreHumanness } from '@/lib/lint/aiFluff';
+
+interface HumannessScoreProps {
+  // Document HTML
+  content: string;
+  className?: string;
+}
+
+const HumannessScore = ({ content, className = '' }: HumannessScoreProps) => {
+  const { score, label, findings } = useMemo(() => scoreHumanness(toPlainText(content)), [content]);
+
+  if (score === null) {
+    return null;
+  }
+
+  const scoreClassName = score >= 80 ? 'text-green-700 bg-green-50 border-green-200'
+    : score >= 50 ? 'text-amber-700 bg-amber-50 border-amber-200'
+    : 'text-rose-700 bg-rose-50 border-rose-200';
+
+  return (
+    <span
+      className={`inline-flex items-center rounded-full border px-2 py-0.5 text-xs font-medium ${scoreClassName} ${className}`}
+      title={`${label}: ${findings === 1 ? '1 AI-typical phrase' : `${findings} AI-typical phrases`} found`}
+    >
+      Humanness {score}
+    </span>
+  );
+};
+
+export default HumannessScore;
@@ -0,0 +1,256 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FileCode2, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { buildSystemPrompt, countTargetSuggestions } from '@shared/ai/suggestionEngine';
+import {
+  MAX_PROMPT_TEMPLATES,
+  MAX_STYLE_RULES,
+  MAX_TEMPLATE_LENGTH,
+  MAX_TEMPLATE_NAME_LENGTH,
+  PROMPT_TEMPLATE_VARIABLES,
+  STARTER_TEMPLATE_BODY,
+  findUnknownVariables,
+  getActivePromptTemplate,
+  normalizePromptTemplates,
+  normalizeStyleRules,
+  type PromptTemplate,
+} from '@shared/ai/promptTemplates';
+
+// Select value for the engine's own prompt
+const BUILT_IN_PROMPT = 'built-in';
+
+const SAMPLE_TITLE = 'Quarterly update';
+const SAMPLE_TEXT = `Due to the fact that our team has grown a lot, we have decided to utilize a new process for reviews.
+
+The new process, which was discussed at length in several meetings that took place over the last month, will be rolled out gradually, and feedback from everyone is very welcome.`;
+
+interface PromptTemplateEditorProps {
+  templates?: PromptTemplate[];
+  activeTemplateId?: string | null;
+  styleRules?: string[];
+  onSave: (changes: { prompt_templates: PromptTemplate[]; active_prompt_template_id: string | null; style_rules: string[] }) => Promise<boolean>;
+  isSaving?: boolean;
+}
+
+const PromptTemplateEditor = ({ templates, activeTemplateId, styleRules, onSave, isSaving = false }: PromptTemplateEditorProps) => {
+  const [draftTemplates, setDraftTemplates] = useState<PromptTemplate[]>([]);
+  const [draftActiveId, setDraftActiveId] = useState<string>(BUILT_IN_PROMPT);
+  const [draftRules, setDraftRules] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [sampleText, setSampleText] = useState(SAMPLE_TEXT);
+  const [isDirty, setIsDirty] = useState(false);
+
+  // Reset the drafts whenever the saved settings change, e.g. once they have loaded
+  useEffect(() => {
+    const savedTemplates = normalizePromptTemplates(templates);
+    setDraftTemplates(savedTemplates);
+    setDraftActiveId(getActivePromptTemplate(savedTemplates, activeTemplateId)?.id ?? BUILT_IN_PROMPT);
+    setDraftRules(normalizeStyleRules(styleRules).join('\n'));
+    setEditingId(current => (savedTemplates.some(template => template.id === current) ? current : savedTemplates[0]?.id ?? null));
+    setIsDirty(false);
+  }, [templates, activeTemplateId, styleRules]);
+
+  const editingTemplate = draftTemplates.find(template => template.id === editingId);
+  const rules = useMemo(() => normalizeStyleRules(draftRules.split('\n')), [draftRules]);
+  const unknownVariables = editingTemplate ? findUnknownVariables(editingTemplate.body) : [];
+
+  // The template being edited, or the built-in prompt when there is none
+  const preview = useMemo(() => buildSystemPrompt({
+    targetSuggestions: countTargetSuggestions(sampleText),
+    documentContext: { title: SAMPLE_TITLE },
+    template: editingTemplate?.body,
+    styleRules: rules,
+  }), [sampleText, editingTemplate?.body, rules]);
+
+  const updateEditingTemplate = (changes: Partial<PromptTemplate>) => {
+    setDraftTemplates(prev => prev.map(template => (template.id === editingId ? { ...template, ...changes } : template)));
+    setIsDirty(true);
+  };
+
+  const handleAddTemplate = () => {
+    const template: PromptTemplate = {
+      id: crypto.randomUUID(),
+      name: `Template ${draftTemplates.length + 1}`,
+      body: STARTER_TEMPLATE_BODY,
+    };
+    setDraftTemplates(prev => [...prev, template]);
+    setEditingId(template.id);
+    setIsDirty(true);
+  };
+
+  const handleDeleteTemplate = () => {
+    const remaining = draftTemplates.filter(template => template.id !== editingId);
+    setDraftTemplates(remaining);
+    if (draftActiveId === editingId) {
+      setDraftActiveId(BUILT_IN_PROMPT);
+    }
+    setEditingId(remaining[0]?.id ?? null);
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    const saved = await onSave({
+      prompt_templates: normalizePromptTemplates(draftTemplates),
+      active_prompt_template_id: draftActiveId === BUILT_IN_PROMPT ? null : draftActiveId,
+      style_rules: rules,
+    });
+    if (saved) {
+      setIsDirty(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="pb-6">
+        <CardTitle className="flex items-center gap-3 text-lg">
+          <FileCode2 className="h-5 w-5" />
+          Prompt Templates
+        </CardTitle>
+        <CardDescription className="text-sm leading-relaxed">
+          Write your own instructions for the AI and add house style rules. The response format is always appended, so suggestions keep working with any template.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        {/* Active prompt */}
+        <div className="space-y-3">
+          <Label className="text-sm font-medium">Prompt used for suggestions</Label>
+          <Select
+            value={draftActiveId}
+            onValueChange={(value) => {
+              setDraftActiveId(value);
+              setIsDirty(true);
+            }}
+          >
+            <SelectTrigger className="h-11">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={BUILT_IN_PROMPT}>Built-in prompt</SelectItem>
+              {draftTemplates.map(template => (
+                <SelectItem key={template.id} value={template.id}>{template.name || 'Untitled template'}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Template library */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label className="text-sm font-medium">Templates</Label>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleAddTemplate}
+              disabled={draftTemplates.length >= MAX_PROMPT_TEMPLATES}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              New template
+            </Button>
+          </div>
+
+          {draftTemplates.length === 0 ? (
+            <p className="text-sm text-gray-500">No templates yet. Suggestions use the built-in prompt.</p>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex gap-2">
+                <Select value={editingId ?? undefined} onValueChange={setEditingId}>
+                  <SelectTrigger className="h-10 flex-1">
+                    <SelectValue placeholder="Choose a template to edit" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {draftTemplates.map(template => (
+                      <SelectItem key={template.id} value={template.id}>{template.name || 'Untitled template'}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="ghost" size="icon" className="h-10 w-10" onClick={handleDeleteTemplate} disabled={!editingTemplate} title="Delete template">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              {editingTemplate && (
+                <div className="space-y-3">
+                  <Input
+                    value={editingTemplate.name}
+                    onChange={(e) => updateEditingTemplate({ name: e.target.value })}
+                    placeholder="Template name"
+                    maxLength={MAX_TEMPLATE_NAME_LENGTH}
+                    aria-label="Template name"
+                  />
+                  <Textarea
+                    value={editingTemplate.body}
+                    onChange={(e) => updateEditingTemplate({ body: e.target.value })}
+                    rows={12}
+                    maxLength={MAX_TEMPLATE_LENGTH}
+                    className="font-mono text-xs"
+                    aria-label="Template"
+                  />
+                  <div className="text-xs text-gray-600 space-y-1">
+                    {PROMPT_TEMPLATE_VARIABLES.map(variable => (
+                      <p key={variable.name}>
+                        <code className="bg-gray-100 px-1 rounded">{`{{${variable.name}}}`}</code> {variable.description}
+                      </p>
+                    ))}
+                    <p>Without <code className="bg-gray-100 px-1 rounded">{'{{brief}}'}</code>, the brief is added after your template.</p>
+                  </div>
+                  {unknownVariables.length > 0 && (
+                    <p className="text-xs text-amber-700">
+                      Unknown variables are sent as written: {unknownVariables.map(name => `{{${name}}}`).join(', ')}
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Style rules */}
+        <div className="space-y-3">
+          <Label htmlFor="style-rules" className="text-sm font-medium">House style rules</Label>
+          <Textarea
+            id="style-rules"
+            value={draftRules}
+            onChange={(e) => {
+              setDraftRules(e.target.value);
+              setIsDirty(true);
+            }}
+            rows={4}
+            placeholder={'Never use the Oxford comma\nPrefer active voice'}
+          />
+          <p className="text-xs text-gray-600">
+            One rule per line, up to {MAX_STYLE_RULES}. Rules apply with the built-in prompt and with templates.
+          </p>
+        </div>
+
+        {/* Preview */}
+        <div className="space-y-3">
+          <Label htmlFor="preview-text" className="text-sm font-medium">Preview</Label>
+          <Textarea
+            id="preview-text"
+            value={sampleText}
+            onChange={(e) => setSampleText(e.target.value)}
+            rows={4}
+            className="text-sm"
+          />
+          <p className="text-xs text-gray-600">
+            System prompt for this sample text{editingTemplate ? ` with "${editingTemplate.name || 'Untitled template'}"` : ' with the built-in prompt'}, as the AI would receive it:
+          </p>
+          <pre className="text-xs whitespace-pre-wrap p-3 rounded-md bg-gray-50 border max-h-80 overflow-y-auto">{preview}</pre>
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={!isDirty || isSaving} className="h-11">
+            Save templates
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PromptTemplateEditor;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { describeReadingEase, type DocumentReadability } from '@/lib/readability';
+
+interface ReadabilityPanelProps {
+  readability: DocumentReadability;
+  // Minutes, from the content analysis
+  estimatedReadingTime: number;
+}
+
+// Green for easy reading, amber for fairly difficult, red below that
+const easeClassName = (score: number) =>
+  score >= 60 ? 'text-green-700' : score >= 30 ? 'text-amber-700' : 'text-red-600';
+
+const Stat = ({ label, value, hint }: { label: string; value: string; hint?: string }) => (
+  <div className="p-2 rounded-md bg-white border border-gray-200">
+    <p className="text-[11px] text-gray-500">{label}</p>
+    <p className="text-sm font-medium text-gray-800">{value}</p>
+    {hint && <p className="text-[11px] text-gray-500">{hint}</p>}
+  </div>
+);
+
+const ReadabilityPanel = ({ readability, estimatedReadingTime }: ReadabilityPanelProps) => {
+  if (readability.words === 0) {
+    return (
+      <div className="p-4 text-center text-muted-foreground/70 text-xs">
+        Start writing to see readability scores.
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 sm:p-4 space-y-4">
+      <div className="grid grid-cols-2 gap-2">
+        <Stat
+          label="Reading ease"
+          value={readability.fleschReadingEase.toFixed(0)}
+          hint={describeReadingEase(readability.fleschReadingEase)}
+        />
+        <Stat label="Grade level" value={readability.fleschKincaidGrade.toFixed(1)} hint="Flesch-Kincaid" />
+        <Stat label="Fog index" value={readability.gunningFog.toFixed(1)} hint="Gunning fog" />
+        <Stat label="Reading time" value={`${estimatedReadingTime} min`} hint={`${readability.words} words`} />
+        <Stat label="Avg sentence" value={`${readability.averageSentenceLength} words`} />
+        <Stat label="Avg paragraph" value={`${readability.averageParagraphLength} words`} />
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs font-medium text-muted-foreground">By paragraph</p>
+        {readability.paragraphs.map((paragraph, index) => (
+          <div key={`${paragraph.start}-${index}`} className="p-2 rounded-md bg-white border border-gray-200 text-xs space-y-1">
+            <p className="text-gray-700 truncate" title={paragraph.text}>{paragraph.text}</p>
+            <div className="flex items-center gap-3 text-gray-500">
+              <span className={`font-medium ${easeClassName(paragraph.fleschReadingEase)}`}>
+                Ease {paragraph.fleschReadingEase.toFixed(0)}
+              </span>
+              <span>Grade {paragraph.fleschKincaidGrade.toFixed(1)}</span>
+              <span>Fog {paragraph.gunningFog.toFixed(1)}</span>
+              <span className="ml-auto">{paragraph.words} words</span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ReadabilityPanel;
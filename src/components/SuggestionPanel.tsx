@@ -1,5 +1,13 @@
 import React from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { type AIErrorKind } from '@shared/ai/errors';
+import { type BudgetLevel } from '@shared/ai/budget';
+import { getSuggestionOptions, wrapAlternativeIndex } from '@/lib/suggestionAlternatives';
+import { LINT_THEME, STYLE_GUIDE_THEME } from '@/lib/lint/lintEngine';
+import { AI_FLUFF_THEME } from '@/lib/lint/aiFluff';
+import { type TextAnchor } from '@/lib/textAnchor';
 
 // Helper functions for diffing
 function splitText(text: string): string[] {
@@ -132,10 +140,63 @@ export interface Suggestion {
   originalText: string;
   suggestedText: string;
   explanation: string;
-  position?: { start: number, end: number };
+  // Other rewrites the writer can pick instead of suggestedText, best first
+  alternatives?: string[];
+  // Where originalText is in the document's plain text; kept up to date as the writer edits
+  anchor?: TextAnchor;
   theme?: string;
+  // Provider and model that wrote an AI suggestion, e.g. "openai:gpt-4o"
+  model?: string;
 }
 
+const RED_ERROR = 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-600 dark:text-red-400';
+const AMBER_ERROR = 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800 text-amber-700 dark:text-amber-400';
+const BLUE_ERROR = 'bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800 text-blue-700 dark:text-blue-400';
+
+// Problems the user has to fix are amber, temporary ones blue
+const ERROR_DISPLAY: Record<AIErrorKind, { title: string; hint?: string; className: string }> = {
+  auth: {
+    title: 'API key problem',
+    hint: 'Check your API key and provider in Settings, then refresh suggestions',
+    className: AMBER_ERROR,
+  },
+  quota: {
+    title: 'Quota exceeded',
+    hint: "Your provider account is out of credit or over its limit. Check your provider's billing page, then refresh suggestions",
+    className: AMBER_ERROR,
+  },
+  'rate-limit': {
+    title: 'Rate limited',
+    hint: 'The provider is receiving too many requests. Suggestions will resume automatically in a minute',
+    className: BLUE_ERROR,
+  },
+  network: {
+    title: 'Connection problem',
+    hint: "Check your internet connection. We'll try again shortly",
+    className: BLUE_ERROR,
+  },
+  server: {
+    title: 'Provider unavailable',
+    hint: "The AI provider is having trouble. We'll try again shortly",
+    className: BLUE_ERROR,
+  },
+  cancelled: {
+    title: 'Cancelled',
+    className: BLUE_ERROR,
+  },
+  unknown: {
+    title: 'Error',
+    className: RED_ERROR,
+  },
+};
+
+// Shown while suggestions are limited by the monthly budget
+const BUDGET_NOTICES: Record<Exclude<BudgetLevel, 'normal'>, string> = {
+  'manual-only': "You've used most of your monthly AI budget. Suggestions only refresh when you click refresh.",
+  economy: "You've nearly used up your monthly AI budget. Suggestions use a cheaper model and only refresh when you click refresh.",
+  off: 'Your monthly AI budget has been reached. Suggestions are off until next month, or until you raise the budget in Settings.',
+};
+
 interface SuggestionPanelProps {
   suggestion: Suggestion | null;
   isGenerating?: boolean;
@@ -143,6 +204,11 @@ interface SuggestionPanelProps {
   hasApiKey?: boolean;
   suggestions?: Suggestion[];
   error?: string | null;
+  errorKind?: AIErrorKind | null;
+  budgetLevel?: BudgetLevel;
+  // Which of the suggestion's rewrites is being previewed
+  alternativeIndex?: number;
+  onAlternativeChange?: (index: number) => void;
   // Position props for alignment
   suggestionPosition?: { top: number; element: Element } | null;
 }
@@ -153,10 +219,15 @@ const SuggestionPanel = ({
   hasApiKey = false,
   suggestions = [],
   error = null,
+  errorKind = null,
+  budgetLevel = 'normal',
+  alternativeIndex = 0,
+  onAlternativeChange,
   suggestionPosition = null
 }: SuggestionPanelProps) => {
-  // Show loading state when generating suggestions
-  if (isGenerating) {
+  // Show loading state when generating suggestions. Suggestions stream in while
+  // generating, so a selected one is still shown below.
+  if (isGenerating && !suggestion) {
     return (
       <div className="h-full flex items-center justify-center p-4">
         <div className="text-center text-muted-foreground/70 text-xs">
@@ -164,29 +235,51 @@ const SuggestionPanel = ({
             <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
           </div>
           <p>Generating AI suggestions...</p>
-          <p className="mt-1 text-xs opacity-70">This should only take a moment</p>
+          <p className="mt-1 text-xs opacity-70">
+            {suggestions.length > 0
+              ? `${suggestions.length} ready so far. Click a dot to review while the rest arrive.`
+              : 'This should only take a moment'}
+          </p>
         </div>
       </div>
     );
   }
 
   if (!suggestion) {
+    const errorDisplay = ERROR_DISPLAY[errorKind || 'unknown'];
+    // A quota error with the budget used up is ours, not the provider's
+    const errorHint = budgetLevel === 'off' && errorKind === 'quota'
+      ? 'Raise your monthly budget in Settings'
+      : errorDisplay.hint;
+
     return (
       <div className="h-full flex flex-col p-4 space-y-4">
         {/* Error display if present */}
         {error && (
-          <div className="p-3 bg-red-50 dark:bg-red-900/20 rounded-md border border-red-200 dark:border-red-800 text-xs">
-            <div className="text-red-600 dark:text-red-400">
-              <span className="font-medium">Error:</span> {error}
+          <div className={`p-3 rounded-md border text-xs ${errorDisplay.className}`}>
+            <div>
+              <span className="font-medium">{errorDisplay.title}:</span> {error}
             </div>
-            {!hasApiKey && (
-              <div className="mt-2 text-amber-600 dark:text-amber-400">
-                <span className="font-medium">💡 Solution:</span> Go to Settings and add your OpenAI API key
+            {(errorHint || !hasApiKey) && (
+              <div className="mt-2 opacity-90">
+                <span className="font-medium">💡 Solution:</span> {!hasApiKey ? 'Go to Settings and add your API key' : errorHint}
               </div>
             )}
           </div>
         )}
 
+        {!hasApiKey && !error && (
+          <div className={`p-3 rounded-md border text-xs ${BLUE_ERROR}`}>
+            <span className="font-medium">Offline checks only:</span> Add an API key in Settings to get AI suggestions as well.
+          </div>
+        )}
+
+        {budgetLevel !== 'normal' && !error && (
+          <div className={`p-3 rounded-md border text-xs ${AMBER_ERROR}`}>
+            <span className="font-medium">Monthly budget:</span> {BUDGET_NOTICES[budgetLevel]}
+          </div>
+        )}
+
 
         
         <div className="text-center text-muted-foreground/70 text-xs">
@@ -197,6 +290,11 @@ const SuggestionPanel = ({
     );
   }
 
+  const options = getSuggestionOptions(suggestion);
+  const selectedIndex = wrapAlternativeIndex(suggestion, alternativeIndex);
+  // Offline checks that only flag the text have no rewrite to show
+  const isNoteOnly = options[selectedIndex] === suggestion.originalText;
+
   // Calculate the transform style for positioning the suggestion content
   const getPositionStyle = () => {
     if (!suggestionPosition) {
@@ -218,11 +316,49 @@ const SuggestionPanel = ({
       >
         <Card key={suggestion.id} className="space-y-2">
           <CardHeader className="pb-1">
+            {suggestion.theme === LINT_THEME && (
+              <p className="text-xs font-medium text-amber-700 dark:text-amber-400">Writing check</p>
+            )}
+            {suggestion.theme === AI_FLUFF_THEME && (
+              <p className="text-xs font-medium text-rose-700 dark:text-rose-400">AI fluff</p>
+            )}
+            {suggestion.theme === STYLE_GUIDE_THEME && (
+              <p className="text-xs font-medium text-violet-700 dark:text-violet-400">Banned phrase</p>
+            )}
           </CardHeader>
           <CardContent className="pt-0 space-y-4">
             <div className="space-y-1">
-              <p className="text-xs font-medium text-muted-foreground">Proposed Change:</p>
-              <DiffDisplay originalText={suggestion.originalText} suggestedText={suggestion.suggestedText} />
+              <div className="flex items-center justify-between">
+                <p className="text-xs font-medium text-muted-foreground">{isNoteOnly ? 'Flagged Text:' : 'Proposed Change:'}</p>
+                {options.length > 1 && (
+                  <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-5 w-5"
+                      onClick={() => onAlternativeChange?.(wrapAlternativeIndex(suggestion, selectedIndex - 1))}
+                      title="Previous rewrite (←)"
+                    >
+                      <ChevronLeft size={12} />
+                    </Button>
+                    <span>Option {selectedIndex + 1} of {options.length}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-5 w-5"
+                      onClick={() => onAlternativeChange?.(wrapAlternativeIndex(suggestion, selectedIndex + 1))}
+                      title="Next rewrite (→)"
+                    >
+                      <ChevronRight size={12} />
+                    </Button>
+                  </div>
+                )}
+              </div>
+              {isNoteOnly ? (
+                <div className="text-xs whitespace-pre-wrap p-2 rounded-md bg-muted dark:bg-zinc-800 leading-relaxed">{suggestion.originalText}</div>
+              ) : (
+                <DiffDisplay originalText={suggestion.originalText} suggestedText={options[selectedIndex]} />
+              )}
             </div>
             
             <div className="space-y-1">
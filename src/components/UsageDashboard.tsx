@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { BarChart3, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useUsageStats } from '@/hooks/useUsageStats';
+
+const RANGE_OPTIONS = [7, 30, 90];
+
+const chartConfig = {
+  promptTokens: {
+    label: 'Prompt tokens',
+    color: 'hsl(217 91% 60%)',
+  },
+  completionTokens: {
+    label: 'Completion tokens',
+    color: 'hsl(142 71% 45%)',
+  },
+} satisfies ChartConfig;
+
+const formatCost = (cost: number) => (cost > 0 && cost < 0.01 ? '< $0.01' : `$${cost.toFixed(2)}`);
+
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const UsageDashboard = () => {
+  const [days, setDays] = useState(30);
+  const { daily, byDocument, totals, isLoading, error, reload } = useUsageStats(days);
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="pb-6">
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-3 text-lg">
+              <BarChart3 className="h-5 w-5" />
+              Usage
+            </CardTitle>
+            <CardDescription className="text-sm leading-relaxed">
+              Tokens used for AI suggestions and what they cost at the provider's list prices.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+              <SelectTrigger className="h-9 w-[130px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RANGE_OPTIONS.map(option => (
+                  <SelectItem key={option} value={String(option)}>Last {option} days</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="ghost" size="icon" onClick={reload} disabled={isLoading} title="Reload usage">
+              <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        {error ? (
+          <p className="text-sm text-red-600">Failed to load usage: {error}</p>
+        ) : (
+          <>
+            {/* Totals */}
+            <div className="grid grid-cols-3 gap-4">
+              <div className="p-3 bg-gray-50 rounded-md border">
+                <p className="text-xs text-gray-600">Requests</p>
+                <p className="text-lg font-semibold">{totals.requests.toLocaleString()}</p>
+              </div>
+              <div className="p-3 bg-gray-50 rounded-md border">
+                <p className="text-xs text-gray-600">Tokens</p>
+                <p className="text-lg font-semibold">{formatTokens(totals.tokens)}</p>
+              </div>
+              <div className="p-3 bg-gray-50 rounded-md border">
+                <p className="text-xs text-gray-600">Estimated cost</p>
+                <p className="text-lg font-semibold">{formatCost(totals.cost)}</p>
+              </div>
+            </div>
+            {totals.hasUnpricedUsage && (
+              <p className="text-xs text-gray-600 -mt-6">
+                Some requests used a model without a known price and aren't included in the estimated cost.
+              </p>
+            )}
+
+            {/* Per day */}
+            <div className="space-y-3">
+              <h3 className="text-sm font-medium">Tokens per day</h3>
+              <ChartContainer config={chartConfig} className="aspect-auto h-[220px] w-full">
+                <BarChart data={daily} margin={{ left: 0, right: 0 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="day" tickLine={false} axisLine={false} minTickGap={24} tickFormatter={formatDay} />
+                  <YAxis tickLine={false} axisLine={false} width={48} tickFormatter={(value: number) => value.toLocaleString()} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(day: string) => formatDay(day)} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="promptTokens" stackId="tokens" fill="var(--color-promptTokens)" />
+                  <Bar dataKey="completionTokens" stackId="tokens" fill="var(--color-completionTokens)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+            </div>
+
+            {/* Per document */}
+            <div className="space-y-3">
+              <h3 className="text-sm font-medium">By document</h3>
+              {byDocument.length === 0 ? (
+                <p className="text-sm text-gray-500">{isLoading ? 'Loading usage...' : 'No AI suggestions in this period.'}</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Document</TableHead>
+                      <TableHead className="text-right">Requests</TableHead>
+                      <TableHead className="text-right">Tokens</TableHead>
+                      <TableHead className="text-right">Cost</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {byDocument.map(document => (
+                      <TableRow key={document.documentId ?? 'none'}>
+                        <TableCell className="max-w-[220px] truncate">{document.title}</TableCell>
+                        <TableCell className="text-right">{document.requests.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{formatTokens(document.tokens)}</TableCell>
+                        <TableCell className="text-right">{formatCost(document.cost)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UsageDashboard;
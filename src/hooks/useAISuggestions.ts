@@ -1,6 +1,20 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { OpenAIService } from '@/lib/openai';
-import { useUserSettings } from '@/hooks/useUserSettings';
+import { OpenAIService, type DocumentSuggestion } from '@/lib/openai';
+import { toAIServiceError, type AIErrorKind } from '@shared/ai/errors';
+import { DEFAULT_WINDOW_TOKENS, buildAnalysisWindows, splitIntoParagraphs, type AnalysisWindow } from '@shared/ai/chunking';
+import { getProvider } from '@shared/ai/providers';
+import { type SuggestionType } from '@shared/ai/suggestionEngine';
+import { type SuggestionMode } from '@shared/ai/suggestionModes';
+import { briefCacheKey, type DocumentBrief } from '@shared/ai/documentBrief';
+import { type EditorPersonaId } from '@shared/ai/editorPersonas';
+import { getActivePromptTemplate, normalizePromptTemplates, normalizeStyleRules, promptSettingsKey } from '@shared/ai/promptTemplates';
+import { bannedPhrasesKey, normalizeBannedPhrases } from '@shared/ai/bannedPhrases';
+import { feedbackProfileKey, type SuggestionOutcome } from '@shared/ai/feedbackProfile';
+import { scoreDocumentReadability } from '@/lib/readability';
+import { anchorQuote, anchorsEqual, createAnchor, resolveAnchor, type TextAnchor } from '@/lib/textAnchor';
+import { useUserSettings, hasUsableAIProvider } from '@/hooks/useUserSettings';
+import { useMonthlyBudget } from '@/hooks/useMonthlyBudget';
+import { useSuggestionFeedback } from '@/hooks/useSuggestionFeedback';
 import { type Suggestion } from '@/components/SuggestionPanel';
 
 // Enhanced content analysis utilities
@@ -33,7 +47,9 @@ const ContentAnalyzer = {
       isEmpty: plainText.length === 0,
       isPlaceholder: plainText === "Start writing your document here...",
       hasSubstantialContent: plainText.length >= 50 && words.length >= 8,
-      estimatedReadingTime: Math.ceil(words.length / 200) // minutes
+      estimatedReadingTime: Math.ceil(words.length / 200), // minutes
+      // Flesch, Flesch-Kincaid and Gunning fog scores, overall and per paragraph
+      readability: scoreDocumentReadability(splitIntoParagraphs(content))
     };
   },
 
@@ -63,9 +79,30 @@ const TIMING_CONFIG = {
   PASTE_IMMEDIATE: 100,     // Almost immediate for paste
   SUBSEQUENT_CHECK: 90 * 1000, // 90 seconds for subsequent checks (reduced from 2 minutes)
   DEBOUNCE_TYPING: 800,     // Debounce rapid typing
+  ANCHOR_SAVE_DELAY: 2000,  // Save rebased anchors once typing pauses
   PRELOAD_DELAY: 1200,      // Preload suggestions
 } as const;
 
+// How long automatic checks wait after a failed generation. Auth and quota
+// problems need the user to act, so only a manual refresh retries those.
+const ERROR_COOLDOWNS: Record<AIErrorKind, number> = {
+  auth: Infinity,
+  quota: Infinity,
+  'rate-limit': 60 * 1000,
+  network: 10 * 1000,
+  server: 30 * 1000,
+  cancelled: 0,
+  unknown: 10 * 1000,
+};
+
+const isInErrorCooldown = (errorKind: AIErrorKind | null, retryAfterMs: number | null, lastGenerationTime: number) => {
+  if (!errorKind) {
+    return false;
+  }
+  const cooldown = Math.max(ERROR_COOLDOWNS[errorKind], retryAfterMs ?? 0);
+  return Date.now() - lastGenerationTime < cooldown;
+};
+
 // Content thresholds for triggering suggestions
 const CONTENT_THRESHOLDS = {
   MIN_WORDS_FIRST: 5,       // Minimum words for first suggestion
@@ -77,98 +114,6 @@ const CONTENT_THRESHOLDS = {
   SUGGESTIONS_PER_100_WORDS: 2, // Additional suggestions per 100 words
 } as const;
 
-// Helper function to find text position with enhanced accuracy
-function findTextPosition(content: string, searchText: string): { start: number; end: number } | undefined {
-  const plainText = ContentAnalyzer.toPlainText(content);
-  
-  // Try exact match first
-  let index = plainText.indexOf(searchText);
-  if (index !== -1) {
-    return {
-      start: index,
-      end: index + searchText.length
-    };
-  }
-  
-  // Try case-insensitive match
-  const lowerPlainText = plainText.toLowerCase();
-  const lowerSearchText = searchText.toLowerCase();
-  index = lowerPlainText.indexOf(lowerSearchText);
-  if (index !== -1) {
-    return {
-      start: index,
-      end: index + searchText.length
-    };
-  }
-  
-  // Try fuzzy matching for slight variations
-  const words = searchText.split(/\s+/).filter(w => w.length > 0);
-  if (words.length > 1) {
-    // Try to find the first and last significant words
-    const firstWord = words[0];
-    const lastWord = words[words.length - 1];
-    
-    // Case-insensitive word search
-    const firstIndex = lowerPlainText.indexOf(firstWord.toLowerCase());
-    if (firstIndex !== -1) {
-      // Look for the last word within a reasonable distance
-      const searchStart = firstIndex;
-      const maxDistance = searchText.length * 2; // Allow for some variation
-      const searchEnd = Math.min(searchStart + maxDistance, lowerPlainText.length);
-      const searchRegion = lowerPlainText.substring(searchStart, searchEnd);
-      const lastWordIndex = searchRegion.indexOf(lastWord.toLowerCase());
-      
-      if (lastWordIndex !== -1) {
-        const absoluteLastIndex = searchStart + lastWordIndex;
-        return {
-          start: firstIndex,
-          end: absoluteLastIndex + lastWord.length
-        };
-      }
-    }
-  }
-  
-  // Try partial word matching for single words or short phrases
-  if (words.length === 1 || searchText.length < 20) {
-    const word = words[0];
-    if (word.length >= 4) { // Only for meaningful words
-      const wordIndex = lowerPlainText.indexOf(word.toLowerCase());
-      if (wordIndex !== -1) {
-        // Estimate the end position
-        const estimatedEnd = Math.min(wordIndex + searchText.length, plainText.length);
-        return {
-          start: wordIndex,
-          end: estimatedEnd
-        };
-      }
-    }
-  }
-  
-  // Try to find any significant portion of the text (for very different suggestions)
-  if (searchText.length > 10) {
-    // Take the middle portion of the search text
-    const middleStart = Math.floor(searchText.length * 0.25);
-    const middleEnd = Math.floor(searchText.length * 0.75);
-    const middlePortion = searchText.substring(middleStart, middleEnd);
-    
-    if (middlePortion.length >= 5) {
-      const middleIndex = lowerPlainText.indexOf(middlePortion.toLowerCase());
-      if (middleIndex !== -1) {
-        // Estimate the start and end
-        const estimatedStart = Math.max(0, middleIndex - middleStart);
-        const estimatedEnd = Math.min(plainText.length, middleIndex + middlePortion.length + (searchText.length - middleEnd));
-        return {
-          start: estimatedStart,
-          end: estimatedEnd
-        };
-      }
-    }
-  }
-  
-  console.warn(`❌ Could not find position for text: "${searchText.substring(0, 50)}..."`);
-  return undefined;
-}
-
 // Helper function to categorize suggestion themes based on explanation and text changes
 function categorizeSuggestionTheme(suggestion: { originalText: string; suggestedText: string; explanation: string }): string {
   const explanation = suggestion.explanation.toLowerCase();
@@ -229,11 +174,11 @@ function categorizeSuggestionTheme(suggestion: { originalText: string; suggested
 
 // Helper function to check if two suggestions overlap in position and theme
 function isSimilarSuggestion(
-  newSuggestion: { originalText: string; suggestedText: string; explanation: string; position?: { start: number; end: number } },
-  existingSuggestion: { originalText: string; suggestedText: string; explanation: string; position?: { start: number; end: number } }
+  newSuggestion: { originalText: string; suggestedText: string; explanation: string; anchor?: TextAnchor },
+  existingSuggestion: { originalText: string; suggestedText: string; explanation: string; anchor?: TextAnchor }
 ): boolean {
-  // Both suggestions must have positions
-  if (!newSuggestion.position || !existingSuggestion.position) {
+  // Both suggestions must be anchored
+  if (!newSuggestion.anchor || !existingSuggestion.anchor) {
     return false;
   }
   
@@ -246,10 +191,10 @@ function isSimilarSuggestion(
   }
   
   // Check for position overlap
-  const newStart = newSuggestion.position.start;
-  const newEnd = newSuggestion.position.end;
-  const existingStart = existingSuggestion.position.start;
-  const existingEnd = existingSuggestion.position.end;
+  const newStart = newSuggestion.anchor.start;
+  const newEnd = newSuggestion.anchor.end;
+  const existingStart = existingSuggestion.anchor.start;
+  const existingEnd = existingSuggestion.anchor.end;
   
   // Calculate overlap
   const overlapStart = Math.max(newStart, existingStart);
@@ -281,38 +226,179 @@ function isSimilarSuggestion(
   return isSimilar;
 }
 
+// Helper function to turn a raw AI suggestion into an anchored, themed Suggestion
+function toAnchoredSuggestion(suggestion: DocumentSuggestion, id: string, content: string, model: string): Suggestion {
+  // Prefer the position mapped from the analysis window, as long as the text
+  // there hasn't changed while the request was in flight. Otherwise the text
+  // must appear verbatim somewhere in the document.
+  const plainText = ContentAnalyzer.toPlainText(content);
+  const mappedAnchor = suggestion.position
+    && plainText.slice(suggestion.position.start, suggestion.position.end) === suggestion.originalText
+    ? createAnchor(plainText, suggestion.position.start, suggestion.position.end)
+    : undefined;
+
+  return {
+    id,
+    originalText: suggestion.originalText,
+    suggestedText: suggestion.suggestedText,
+    explanation: suggestion.explanation,
+    alternatives: suggestion.alternatives,
+    anchor: mappedAnchor ?? anchorQuote(plainText, suggestion.originalText) ?? undefined,
+    theme: categorizeSuggestionTheme(suggestion),
+    model,
+  };
+}
+
+// Helper function to decide whether a new suggestion can join the existing ones
+function isAcceptableSuggestion(suggestion: Suggestion, existingSuggestions: Suggestion[], plainText: string, avoidedThemes: string[]): boolean {
+  // Filter out invalid suggestions
+  const hasAnchor = suggestion.anchor !== undefined;
+  const textExists = plainText.includes(suggestion.originalText);
+  const meaningfulChange = suggestion.originalText !== suggestion.suggestedText;
+  // The writer keeps rejecting this kind of suggestion
+  const isAvoidedTheme = !!suggestion.theme && avoidedThemes.includes(suggestion.theme);
+  
+  // Check for similar suggestions (same theme + overlapping position)
+  const hasSimilarSuggestion = existingSuggestions.some(existing => 
+    isSimilarSuggestion(suggestion, existing)
+  );
+
+  // Also check for positional overlap regardless of theme to avoid clustering
+  const hasPositionalOverlap = suggestion.anchor && existingSuggestions.some(existing => {
+    if (!existing.anchor) return false;
+    const overlapStart = Math.max(suggestion.anchor!.start, existing.anchor.start);
+    const overlapEnd = Math.min(suggestion.anchor!.end, existing.anchor.end);
+    const overlapLength = Math.max(0, overlapEnd - overlapStart);
+    return overlapLength > 10; // Avoid suggestions too close to each other
+  });
+
+  console.log(`🔍 Filtering suggestion "${suggestion.originalText.substring(0, 30)}...":`, {
+    theme: suggestion.theme,
+    textExists,
+    hasAnchor,
+    hasSimilarSuggestion,
+    hasPositionalOverlap,
+    meaningfulChange,
+    isAvoidedTheme,
+    willInclude: hasAnchor && textExists && !hasSimilarSuggestion && !hasPositionalOverlap && meaningfulChange && !isAvoidedTheme,
+    anchor: suggestion.anchor
+  });
+
+  return hasAnchor && textExists && !hasSimilarSuggestion && !hasPositionalOverlap && meaningfulChange && !isAvoidedTheme;
+}
+
 interface UseAISuggestionsProps {
   content: string;
   documentTitle?: string;
+  // Token usage is recorded against this document
+  documentId?: string;
   enabled?: boolean;
+  // Suggestion type the writer picked; 'auto' chooses one from the content
+  mode?: SuggestionMode;
+  // The document's writing brief, added to the prompt
+  brief?: DocumentBrief | null;
+  // Reviewer persona for the document; null for all-round suggestions
+  persona?: EditorPersonaId | null;
+  // Open suggestions saved with the document, shown again without a new request
+  savedSuggestions?: Suggestion[];
+  // Called with AI suggestions to save: new ones once a generation has
+  // finished, and ones whose anchor moved once typing pauses
+  onSuggestionsChanged?: (suggestions: Suggestion[]) => void;
+  // Called with the ids of saved suggestions that no longer apply, because
+  // their text was edited or the writer cleared them
+  onSuggestionsStale?: (suggestionIds: string[]) => void;
 }
 
 interface SuggestionState {
   suggestions: Suggestion[];
   isGenerating: boolean;
   error: string | null;
+  errorKind: AIErrorKind | null;
+  retryAfterMs: number | null;
   lastAnalysis: ReturnType<typeof ContentAnalyzer.analyzeContent> | null;
   lastGenerationTime: number;
   generationCount: number;
+  // Type of the current or most recent generation
+  activeSuggestionType: SuggestionType | null;
 }
 
-export const useAISuggestions = ({ content, documentTitle, enabled = true }: UseAISuggestionsProps) => {
+// Used in 'auto' mode
+const pickSuggestionType = (analysis: ReturnType<typeof ContentAnalyzer.analyzeContent>): SuggestionType => {
+  if (analysis.words > 100) {
+    return 'conciseness';
+  }
+  if (analysis.sentences > 5) {
+    return 'clarity';
+  }
+  if (analysis.estimatedReadingTime > 2) {
+    return 'engagement';
+  }
+  return 'general';
+};
+
+export const useAISuggestions = ({
+  content,
+  documentTitle,
+  documentId,
+  enabled = true,
+  mode = 'auto',
+  brief,
+  persona = null,
+  savedSuggestions,
+  onSuggestionsChanged,
+  onSuggestionsStale,
+}: UseAISuggestionsProps) => {
   const [state, setState] = useState<SuggestionState>({
     suggestions: [],
     isGenerating: false,
     error: null,
+    errorKind: null,
+    retryAfterMs: null,
     lastAnalysis: null,
     lastGenerationTime: 0,
-    generationCount: 0
+    generationCount: 0,
+    activeSuggestionType: null
   });
 
   const { settings } = useUserSettings();
+  const hasProvider = hasUsableAIProvider(settings);
+  // Near the monthly budget, suggestions stop being automatic, then switch to
+  // the cheaper model (the Edge Function makes the same switch), then stop.
+  // Nothing is automatic until this month's spend has loaded.
+  const budget = useMonthlyBudget(settings.monthly_budget_usd);
+  const refreshBudget = budget.refresh;
+  const isAutomatic = budget.level === 'normal';
+  const economyModel = getProvider(settings.ai_provider).economyModel;
+  const activeModel = budget.level === 'economy' && economyModel ? economyModel : settings.ai_model;
+  // Part of the suggestion cache key, so switching models doesn't serve stale results
+  const modelKey = `${settings.ai_provider}:${activeModel}`;
+  // Changes whenever a field of the brief does
+  const briefKey = briefCacheKey(brief);
+  const bannedPhrases = useMemo(() => normalizeBannedPhrases(settings.banned_phrases), [settings.banned_phrases]);
+  // Themes the writer keeps rejecting are left out of the prompt and filtered here
+  const { profile: feedbackProfile, recordFeedback } = useSuggestionFeedback();
+  const avoidedThemes = feedbackProfile.avoidedThemes;
+  // Changes with the active prompt template, the style rules, the banned
+  // phrases or the avoided themes
+  const promptKey = [
+    promptSettingsKey(
+      getActivePromptTemplate(normalizePromptTemplates(settings.prompt_templates), settings.active_prompt_template_id),
+      normalizeStyleRules(settings.style_rules)
+    ),
+    bannedPhrasesKey(bannedPhrases),
+    feedbackProfileKey(feedbackProfile),
+  ].filter(Boolean).join('\n');
   
   // Memoized content analysis
   const currentAnalysis = useMemo(() => {
     return ContentAnalyzer.analyzeContent(content);
   }, [content]);
 
+  // Suggestions already shown when their theme became avoided are hidden too
+  const suggestions = useMemo(() => state.suggestions.filter(suggestion =>
+    !suggestion.theme || !avoidedThemes.includes(suggestion.theme)
+  ), [state.suggestions, avoidedThemes]);
+
   // Calculate dynamic max suggestions based on content
   const maxSuggestions = useMemo(() => {
     const base = CONTENT_THRESHOLDS.MAX_SUGGESTIONS_BASE;
@@ -323,8 +409,34 @@ export const useAISuggestions = ({ content, documentTitle, enabled = true }: Use
   // Refs for stable references in callbacks
   const contentRef = useRef(content);
   const documentTitleRef = useRef(documentTitle);
+  const documentIdRef = useRef(documentId);
+  const modelRef = useRef(modelKey);
+  const promptKeyRef = useRef(promptKey);
+  const avoidedThemesRef = useRef(avoidedThemes);
+  const budgetLevelRef = useRef(budget.level);
+  const modeRef = useRef(mode);
+  const briefRef = useRef(brief);
+  const personaRef = useRef(persona);
+  // Mode, persona and brief the current suggestions were generated with
+  const appliedModeRef = useRef(mode);
+  const appliedPersonaRef = useRef(persona);
+  const appliedBriefKeyRef = useRef(briefKey);
   const currentAnalysisRef = useRef(currentAnalysis);
   const maxSuggestionsRef = useRef(maxSuggestions);
+  const suggestionsRef = useRef(state.suggestions);
+  // Hashes of the paragraphs suggestions have already been generated for
+  const analyzedHashesRef = useRef<Set<string>>(new Set());
+  // Set as soon as a generation starts, before its state update has rendered,
+  // so a second call in the meantime can't send another request
+  const isGeneratingRef = useRef(false);
+  // The generation in flight and the paragraphs it is analyzing, so it can be
+  // cancelled once one of those paragraphs is edited
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const inFlightHashesRef = useRef<Set<string>>(new Set());
+  // AI suggestions that are saved with the document and still open, with the
+  // anchor they were last saved with
+  const savedAnchorsRef = useRef<Map<string, TextAnchor | undefined>>(new Map());
+  const appliedSavedSuggestionsRef = useRef<Suggestion[] | null>(null);
   const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
   const subsequentTimerRef = useRef<NodeJS.Timeout | null>(null);
   
@@ -337,6 +449,38 @@ export const useAISuggestions = ({ content, documentTitle, enabled = true }: Use
     documentTitleRef.current = documentTitle;
   }, [documentTitle]);
 
+  useEffect(() => {
+    documentIdRef.current = documentId;
+  }, [documentId]);
+
+  useEffect(() => {
+    modelRef.current = modelKey;
+  }, [modelKey]);
+
+  useEffect(() => {
+    promptKeyRef.current = promptKey;
+  }, [promptKey]);
+
+  useEffect(() => {
+    avoidedThemesRef.current = avoidedThemes;
+  }, [avoidedThemes]);
+
+  useEffect(() => {
+    budgetLevelRef.current = budget.level;
+  }, [budget.level]);
+
+  useEffect(() => {
+    modeRef.current = mode;
+  }, [mode]);
+
+  useEffect(() => {
+    briefRef.current = brief;
+  }, [brief]);
+
+  useEffect(() => {
+    personaRef.current = persona;
+  }, [persona]);
+
   useEffect(() => {
     currentAnalysisRef.current = currentAnalysis;
   }, [currentAnalysis]);
@@ -345,6 +489,10 @@ export const useAISuggestions = ({ content, documentTitle, enabled = true }: Use
     maxSuggestionsRef.current = maxSuggestions;
   }, [maxSuggestions]);
 
+  useEffect(() => {
+    suggestionsRef.current = state.suggestions;
+  }, [state.suggestions]);
+
 
 
   // Determine if content meets threshold for suggestions
@@ -359,70 +507,159 @@ export const useAISuggestions = ({ content, documentTitle, enabled = true }: Use
            currentAnalysisValue.hasSubstantialContent;
   }, [state.generationCount]);
 
-  // Core suggestion generation function
-  const generateSuggestions = useCallback(async (reason: string) => {
-    // Get current state values to avoid stale closures
-    setState(prev => {
-      const currentAnalysisValue = currentAnalysisRef.current;
-      const maxSuggestionsValue = maxSuggestionsRef.current;
-      
-      const { canGenerate, reason: cantReason } = (() => {
-        if (!enabled || !settings.openai_api_key) {
-          return { canGenerate: false, reason: 'Disabled or no API key' };
-        }
-        if (currentAnalysisValue.isEmpty || currentAnalysisValue.isPlaceholder) {
-          return { canGenerate: false, reason: 'Empty or placeholder content' };
-        }
-        if (prev.suggestions.length >= maxSuggestionsValue) {
-          return { canGenerate: false, reason: 'Max suggestions reached' };
-        }
-        if (prev.isGenerating) {
-          return { canGenerate: false, reason: 'Already generating' };
-        }
-        return { canGenerate: true, reason: 'Ready' };
-      })();
-      
-      if (!canGenerate) {
-        console.log(`❌ Cannot generate suggestions: ${cantReason}`);
-        return prev; // No state change
+  // Core suggestion generation function. Only paragraphs that changed since
+  // they were last analyzed are sent, unless `force` is set, which re-analyzes
+  // everything and (unless `refresh` is false) bypasses the suggestion cache.
+  // `suggestionType` overrides the selected mode for this request only.
+  const generateSuggestions = useCallback(async (
+    reason: string,
+    { force = false, refresh = force, suggestionType: requestedType }: { force?: boolean; refresh?: boolean; suggestionType?: SuggestionType } = {}
+  ) => {
+    if (isGeneratingRef.current) {
+      console.log(`❌ Cannot generate suggestions: Already generating (${reason})`);
+      return;
+    }
+
+    if (budgetLevelRef.current === 'off') {
+      setState(prev => ({
+        ...prev,
+        error: 'Your monthly AI budget has been reached. Raise it in Settings or wait until next month.',
+        errorKind: 'quota',
+        retryAfterMs: null,
+        lastGenerationTime: Date.now(),
+      }));
+      return;
+    }
+
+    const paragraphs = splitIntoParagraphs(contentRef.current);
+    const currentHashes = new Set(paragraphs.map(paragraph => paragraph.hash));
+
+    // Forget paragraphs that no longer exist so the set doesn't grow forever
+    analyzedHashesRef.current = new Set([...analyzedHashesRef.current].filter(hash => currentHashes.has(hash)));
+    const analyzedHashes = analyzedHashesRef.current;
+
+    const isDirty = (hash: string) => force || !analyzedHashes.has(hash);
+    const cleanParagraphs = paragraphs.filter(paragraph => !isDirty(paragraph.hash));
+    const windows = buildAnalysisWindows(contentRef.current, DEFAULT_WINDOW_TOKENS, paragraph => isDirty(paragraph.hash));
+
+    if (windows.length === 0) {
+      setState(prev => ({ ...prev, lastAnalysis: currentAnalysisRef.current, lastGenerationTime: Date.now() }));
+      return;
+    }
+
+    // Suggestions in paragraphs that are about to be re-analyzed are replaced;
+    // the ones in untouched paragraphs are kept (their anchors are already
+    // up to date, see the rebasing effect)
+    const isKept = ({ anchor }: Suggestion) =>
+      !!anchor && cleanParagraphs.some(paragraph => anchor.start >= paragraph.start && anchor.end <= paragraph.end);
+
+    // Checked here rather than inside a state update, which would run too late
+    // to stop the request below
+    const currentAnalysisValue = currentAnalysisRef.current;
+    const maxSuggestionsValue = maxSuggestionsRef.current;
+    const keptCount = suggestionsRef.current.filter(isKept).length;
+    const cantReason = (() => {
+      if (!enabled || !hasProvider) {
+        return 'Disabled or no API key';
       }
+      if (currentAnalysisValue.isEmpty || currentAnalysisValue.isPlaceholder) {
+        return 'Empty or placeholder content';
+      }
+      if (keptCount >= maxSuggestionsValue) {
+        return 'Max suggestions reached';
+      }
+      return null;
+    })();
 
-      console.log(`🚀 Generating suggestions - ${reason}`, {
-        words: currentAnalysisValue.words,
-        length: currentAnalysisValue.length,
-        sentences: currentAnalysisValue.sentences,
-        currentSuggestions: prev.suggestions.length,
-        maxSuggestions: maxSuggestionsValue
-      });
+    if (cantReason) {
+      console.log(`❌ Cannot generate suggestions: ${cantReason}`);
+      return;
+    }
+    isGeneratingRef.current = true;
+
+    const abortController = new AbortController();
+    const selectedMode = modeRef.current;
+    const suggestionType = requestedType
+      ?? (selectedMode === 'auto' ? pickSuggestionType(currentAnalysisValue) : selectedMode);
 
-      // Start generation
-      return { ...prev, isGenerating: true, error: null };
+    console.log(`🚀 Generating suggestions - ${reason}`, {
+      words: currentAnalysisValue.words,
+      length: currentAnalysisValue.length,
+      sentences: currentAnalysisValue.sentences,
+      dirtyParagraphs: paragraphs.length - cleanParagraphs.length,
+      totalParagraphs: paragraphs.length,
+      currentSuggestions: keptCount,
+      maxSuggestions: maxSuggestionsValue,
+      suggestionType
     });
 
+    // Start generation
+    setState(prev => ({
+      ...prev,
+      suggestions: prev.suggestions.filter(isKept),
+      isGenerating: true,
+      error: null,
+      errorKind: null,
+      retryAfterMs: null,
+      activeSuggestionType: suggestionType,
+    }));
+
     // Perform the actual generation outside of setState
+    abortControllerRef.current = abortController;
+    inFlightHashesRef.current = new Set(windows.flatMap(analysisWindow => analysisWindow.paragraphs.map(paragraph => paragraph.hash)));
     try {
-      const currentAnalysisValue = currentAnalysisRef.current;
-      const maxSuggestionsValue = maxSuggestionsRef.current;
-      
-      // Determine suggestion type based on content analysis
-      let suggestionType: 'general' | 'conciseness' | 'clarity' | 'engagement' = 'general';
-      
-      if (currentAnalysisValue.words > 100) {
-        suggestionType = 'conciseness';
-      } else if (currentAnalysisValue.sentences > 5) {
-        suggestionType = 'clarity';
-      } else if (currentAnalysisValue.estimatedReadingTime > 2) {
-        suggestionType = 'engagement';
-      }
+      const generationId = Date.now();
+      const generationModel = modelRef.current;
+      const streamedTexts = new Set<string>();
+
+      // Long documents are analyzed in windows. Each window gets a share of the
+      // suggestion slots so the first windows to respond can't use them all up
+      const completedWindows: AnalysisWindow[] = [];
+      const perWindowLimit = Math.max(1, Math.ceil(maxSuggestionsValue / Math.max(windows.length, 1)));
+      const countForWindow = (suggestions: Suggestion[], windowIndex: number) =>
+        suggestions.filter(suggestion => suggestion.id.startsWith(`${generationId}-w${windowIndex}-`)).length;
+
+      // Push each suggestion into state as soon as it has streamed in
+      const handleStreamedSuggestion = (suggestion: DocumentSuggestion) => {
+        const id = `${generationId}-w${suggestion.windowIndex}-${streamedTexts.size}`;
+        streamedTexts.add(suggestion.originalText);
 
-      const aiSuggestions = await OpenAIService.generateSuggestions({
+        setState(prev => {
+          if (!prev.isGenerating || prev.suggestions.length >= maxSuggestionsValue) {
+            return prev;
+          }
+          if (countForWindow(prev.suggestions, suggestion.windowIndex) >= perWindowLimit) {
+            return prev;
+          }
+
+          const candidate = toAnchoredSuggestion(suggestion, id, contentRef.current, generationModel);
+          if (!isAcceptableSuggestion(candidate, prev.suggestions, currentAnalysisValue.plainText, avoidedThemesRef.current)) {
+            return prev;
+          }
+
+          return {
+            ...prev,
+            suggestions: [...prev.suggestions, candidate]
+          };
+        });
+      };
+
+      const aiSuggestions = await OpenAIService.generateDocumentSuggestions({
         content: contentRef.current,
-        apiKey: settings.openai_api_key,
-        model: settings.ai_model || 'gpt-3.5-turbo',
+        windows,
+        onWindowComplete: (analysisWindow) => completedWindows.push(analysisWindow),
+        model: generationModel,
+        promptKey: promptKeyRef.current,
+        refresh,
+        signal: abortController.signal,
         suggestionType,
+        persona: personaRef.current ?? undefined,
         documentContext: {
           title: documentTitleRef.current,
-        }
+          brief: briefRef.current ?? undefined,
+        },
+        documentId: documentIdRef.current,
+        onSuggestion: handleStreamedSuggestion
       });
 
       // Process and filter suggestions using theme-based similarity detection
@@ -432,56 +669,31 @@ export const useAISuggestions = ({ content, documentTitle, enabled = true }: Use
           return prev;
         }
 
-        const newSuggestions: Suggestion[] = aiSuggestions
-          .map((suggestion, index) => {
-            const position = findTextPosition(contentRef.current, suggestion.originalText);
-            const theme = categorizeSuggestionTheme(suggestion);
-            
-            return {
-              id: `${Date.now()}-${index}`,
-              originalText: suggestion.originalText,
-              suggestedText: suggestion.suggestedText,
-              explanation: suggestion.explanation,
-              position: position,
-              theme: theme,
-            };
-          })
-          .filter(suggestion => {
-            // Filter out invalid suggestions
-            const hasPosition = suggestion.position !== undefined;
-            const textExists = currentAnalysisValue.plainText.includes(suggestion.originalText);
-            const meaningfulChange = suggestion.originalText !== suggestion.suggestedText;
-            
-            // Check for similar suggestions (same theme + overlapping position)
-            const hasSimilarSuggestion = prev.suggestions.some(existing => 
-              isSimilarSuggestion(suggestion, existing)
-            );
-
-            // Also check for positional overlap regardless of theme to avoid clustering
-            const hasPositionalOverlap = suggestion.position && prev.suggestions.some(existing => {
-              if (!existing.position) return false;
-              const overlapStart = Math.max(suggestion.position!.start, existing.position.start);
-              const overlapEnd = Math.min(suggestion.position!.end, existing.position.end);
-              const overlapLength = Math.max(0, overlapEnd - overlapStart);
-              return overlapLength > 10; // Avoid suggestions too close to each other
-            });
-
-            console.log(`🔍 Filtering suggestion "${suggestion.originalText.substring(0, 30)}...":`, {
-              theme: suggestion.theme,
-              textExists,
-              hasPosition,
-              hasSimilarSuggestion,
-              hasPositionalOverlap,
-              meaningfulChange,
-              willInclude: hasPosition && textExists && !hasSimilarSuggestion && !hasPositionalOverlap && meaningfulChange,
-              position: suggestion.position
-            });
-
-            return hasPosition && textExists && !hasSimilarSuggestion && !hasPositionalOverlap && meaningfulChange;
+        // Only windows that produced a response count as analyzed
+        completedWindows.forEach(analysisWindow => {
+          analysisWindow.paragraphs.forEach(paragraph => analyzedHashesRef.current.add(paragraph.hash));
+        });
+
+        // Anything the stream parser couldn't pick up (e.g. recovered by the
+        // fallback parser) still gets a chance here
+        const newSuggestions: Suggestion[] = [];
+        aiSuggestions
+          .filter(suggestion => !streamedTexts.has(suggestion.originalText))
+          .forEach((suggestion, index) => {
+            const candidate = toAnchoredSuggestion(suggestion, `${generationId}-w${suggestion.windowIndex}-final-${index}`, contentRef.current, generationModel);
+            // Checked against the ones accepted earlier in this pass too, so two
+            // recovered suggestions can't cover the same text
+            const accepted = [...prev.suggestions, ...newSuggestions];
+            const windowCount = countForWindow(accepted, suggestion.windowIndex);
+            if (windowCount < perWindowLimit && isAcceptableSuggestion(candidate, accepted, currentAnalysisValue.plainText, avoidedThemesRef.current)) {
+              newSuggestions.push(candidate);
+            }
           });
 
-        if (newSuggestions.length > 0) {
-          console.log(`✅ Added ${newSuggestions.length} suggestions`);
+        const streamedCount = prev.suggestions.filter(suggestion => suggestion.id.startsWith(`${generationId}-`)).length;
+
+        if (newSuggestions.length > 0 || streamedCount > 0) {
+          console.log(`✅ Added ${newSuggestions.length + streamedCount} suggestions`);
           return {
             ...prev,
             suggestions: [...prev.suggestions, ...newSuggestions].slice(0, maxSuggestionsValue),
@@ -502,17 +714,158 @@ export const useAISuggestions = ({ content, documentTitle, enabled = true }: Use
       });
 
     } catch (error) {
-      console.error('💥 Error generating suggestions:', error);
+      const aiError = toAIServiceError(error);
+
+      // Superseded by an edit: the next check picks up the new text
+      if (aiError.kind === 'cancelled') {
+        setState(prev => ({ ...prev, isGenerating: false }));
+        return;
+      }
+
+      console.error(`💥 Error generating suggestions (${aiError.kind}):`, error);
       setState(prev => ({
         ...prev,
         isGenerating: false,
-        error: error instanceof Error ? error.message : 'Failed to generate suggestions',
+        error: aiError.message || 'Failed to generate suggestions',
+        errorKind: aiError.kind,
+        retryAfterMs: aiError.retryAfterMs ?? null,
         lastAnalysis: currentAnalysisRef.current, // Update lastAnalysis to prevent infinite retries
         lastGenerationTime: Date.now(),
         generationCount: prev.generationCount + 1
       }));
+    } finally {
+      isGeneratingRef.current = false;
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+        inFlightHashesRef.current = new Set();
+      }
+      // Spend changed, which may move the budget to the next level
+      refreshBudget();
     }
-  }, [enabled, settings.openai_api_key]);
+  }, [enabled, hasProvider, refreshBudget]);
+
+  // Show the suggestions saved with the document. The paragraphs they are in
+  // count as analyzed, so reopening a document doesn't request them again.
+  useEffect(() => {
+    if (!savedSuggestions || savedSuggestions === appliedSavedSuggestionsRef.current) {
+      return;
+    }
+    appliedSavedSuggestionsRef.current = savedSuggestions;
+
+    const plainText = ContentAnalyzer.toPlainText(content);
+    const paragraphs = splitIntoParagraphs(content);
+    const savedAnchors = new Map(savedSuggestions.map(suggestion => [suggestion.id, suggestion.anchor]));
+    const restored = savedSuggestions.flatMap(suggestion => {
+      const anchor = suggestion.anchor
+        ? resolveAnchor(plainText, suggestion.anchor)
+        : anchorQuote(plainText, suggestion.originalText);
+      return anchor ? [{ ...suggestion, anchor }] : [];
+    });
+    const staleIds = savedSuggestions
+      .filter(suggestion => !restored.some(kept => kept.id === suggestion.id))
+      .map(suggestion => suggestion.id);
+
+    restored.forEach(({ anchor }) => {
+      paragraphs
+        .filter(paragraph => anchor.start >= paragraph.start && anchor.end <= paragraph.end)
+        .forEach(paragraph => analyzedHashesRef.current.add(paragraph.hash));
+    });
+    if (staleIds.length > 0) {
+      onSuggestionsStale?.(staleIds);
+    }
+
+    setState(prev => {
+      // Marked as saved together with the state change, so they are neither
+      // saved again nor taken for dropped ones in between. Anchors that moved
+      // since they were saved are saved again by the effect below.
+      restored.forEach(suggestion => savedAnchorsRef.current.set(suggestion.id, savedAnchors.get(suggestion.id)));
+      return {
+        ...prev,
+        suggestions: [
+          ...prev.suggestions.filter(suggestion => !restored.some(kept => kept.id === suggestion.id)),
+          ...restored,
+        ],
+      };
+    });
+  }, [savedSuggestions, content, onSuggestionsStale]);
+
+  // Keep the saved suggestions in step with the ones on screen: new ones are
+  // saved once a generation has finished, ones that were replaced or cleared
+  // are marked stale, and ones whose text moved are saved with their rebased
+  // anchor once typing pauses. Accepted and rejected ones are removed from
+  // savedAnchorsRef first, so they aren't marked stale.
+  useEffect(() => {
+    if (state.isGenerating) {
+      return;
+    }
+
+    const savedAnchors = savedAnchorsRef.current;
+    const currentIds = new Set(state.suggestions.map(suggestion => suggestion.id));
+    const added = state.suggestions.filter(suggestion => !savedAnchors.has(suggestion.id));
+    const dropped = [...savedAnchors.keys()].filter(id => !currentIds.has(id));
+
+    added.forEach(suggestion => savedAnchors.set(suggestion.id, suggestion.anchor));
+    dropped.forEach(id => savedAnchors.delete(id));
+    if (added.length > 0) {
+      onSuggestionsChanged?.(added);
+    }
+    if (dropped.length > 0) {
+      onSuggestionsStale?.(dropped);
+    }
+
+    // Every keystroke moves the anchors after it, so these wait for a pause
+    const moved = state.suggestions.filter(suggestion =>
+      savedAnchors.has(suggestion.id) && !anchorsEqual(savedAnchors.get(suggestion.id), suggestion.anchor)
+    );
+    if (moved.length === 0) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      moved.forEach(suggestion => savedAnchors.set(suggestion.id, suggestion.anchor));
+      onSuggestionsChanged?.(moved);
+    }, TIMING_CONFIG.ANCHOR_SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [state.suggestions, state.isGenerating, onSuggestionsChanged, onSuggestionsStale]);
+
+  // Rebase every AI suggestion's anchor on each edit, so it follows its text
+  // around. Suggestions whose text is gone are dropped, and the effect above
+  // marks the saved ones stale.
+  useEffect(() => {
+    const plainText = ContentAnalyzer.toPlainText(content);
+    setState(prev => {
+      let changed = false;
+      const rebased = prev.suggestions.flatMap(suggestion => {
+        if (!suggestion.anchor) {
+          return [suggestion];
+        }
+        const anchor = resolveAnchor(plainText, suggestion.anchor);
+        if (!anchor) {
+          changed = true;
+          return [];
+        }
+        if (anchor.start === suggestion.anchor.start && anchor.prefix === suggestion.anchor.prefix && anchor.suffix === suggestion.anchor.suffix) {
+          return [suggestion];
+        }
+        changed = true;
+        return [{ ...suggestion, anchor }];
+      });
+      return changed ? { ...prev, suggestions: rebased } : prev;
+    });
+  }, [content]);
+
+  // Cancel the generation in flight once a paragraph it is analyzing changes
+  useEffect(() => {
+    const abortController = abortControllerRef.current;
+    if (!abortController || inFlightHashesRef.current.size === 0) {
+      return;
+    }
+
+    const currentHashes = new Set(splitIntoParagraphs(content).map(paragraph => paragraph.hash));
+    const isSuperseded = [...inFlightHashesRef.current].some(hash => !currentHashes.has(hash));
+    if (isSuperseded) {
+      abortController.abort();
+    }
+  }, [content]);
 
     // Handle content changes with intelligent triggering
   useEffect(() => {
@@ -521,7 +874,7 @@ export const useAISuggestions = ({ content, documentTitle, enabled = true }: Use
       clearTimeout(debounceTimerRef.current);
     }
 
-    if (!enabled || !settings.openai_api_key) {
+    if (!enabled || !hasProvider || !isAutomatic) {
       return;
     }
 
@@ -531,7 +884,7 @@ export const useAISuggestions = ({ content, documentTitle, enabled = true }: Use
     }
 
     // Add cooldown period after errors to prevent infinite retries
-    if (state.error && Date.now() - state.lastGenerationTime < 10000) { // 10 second cooldown after error
+    if (isInErrorCooldown(state.errorKind, state.retryAfterMs, state.lastGenerationTime)) {
       return;
     }
 
@@ -570,7 +923,7 @@ export const useAISuggestions = ({ content, documentTitle, enabled = true }: Use
     } else {
       // Subsequent suggestions - analyze entire document for more suggestions
       if (meetsContentThreshold(false) && 
-          state.suggestions.length < maxSuggestions) { // Only if we can add more suggestions
+          state.suggestions.length < maxSuggestionsRef.current) { // Only if we can add more suggestions
         
         // For existing content, allow suggestions if enough time has passed OR if content has changed
         const hasTimeElapsed = timeSinceLastGeneration > 15000; // Reduced from 30s to 15s
@@ -590,7 +943,7 @@ export const useAISuggestions = ({ content, documentTitle, enabled = true }: Use
       
       // Clear previous errors when attempting new generation
       if (state.error) {
-        setState(prev => ({ ...prev, error: null }));
+        setState(prev => ({ ...prev, error: null, errorKind: null, retryAfterMs: null }));
       }
       
       debounceTimerRef.current = setTimeout(() => {
@@ -604,17 +957,22 @@ export const useAISuggestions = ({ content, documentTitle, enabled = true }: Use
         clearTimeout(debounceTimerRef.current);
       }
     };
-  }, [content, enabled, settings.openai_api_key, generateSuggestions, meetsContentThreshold, state.lastAnalysis, state.generationCount, state.lastGenerationTime, state.isGenerating, state.suggestions.length]);
+  }, [content, enabled, hasProvider, isAutomatic, generateSuggestions, meetsContentThreshold, state.lastAnalysis, state.generationCount, state.lastGenerationTime, state.isGenerating, state.suggestions.length, state.error, state.errorKind, state.retryAfterMs]);
 
   // Set up periodic checks for subsequent suggestions
   useEffect(() => {
-    if (!enabled || !settings.openai_api_key || state.generationCount === 0 || state.isGenerating) {
+    if (!enabled || !hasProvider || !isAutomatic || state.generationCount === 0 || state.isGenerating) {
       return;
     }
 
     const checkForUpdates = () => {
       // Don't check if currently generating
-      if (state.isGenerating) {
+      if (state.isGenerating || isInErrorCooldown(state.errorKind, state.retryAfterMs, state.lastGenerationTime)) {
+        return;
+      }
+
+      // Nobody is reading suggestions in a background tab, e.g. one left open overnight
+      if (document.hidden) {
         return;
       }
 
@@ -637,7 +995,7 @@ export const useAISuggestions = ({ content, documentTitle, enabled = true }: Use
 
         if (shouldAnalyze) {
           console.log('⏰ Periodic check triggering suggestions - analyzing existing content');
-          generateSuggestions('Periodic full document analysis');
+          generateSuggestions('Periodic check for changed paragraphs');
         }
       }
     };
@@ -649,7 +1007,34 @@ export const useAISuggestions = ({ content, documentTitle, enabled = true }: Use
         clearInterval(subsequentTimerRef.current);
       }
     };
-  }, [enabled, settings.openai_api_key, state.generationCount, state.lastGenerationTime, state.lastAnalysis, meetsContentThreshold, generateSuggestions, state.isGenerating, state.suggestions.length]);
+  }, [enabled, hasProvider, isAutomatic, state.generationCount, state.lastGenerationTime, state.lastAnalysis, meetsContentThreshold, generateSuggestions, state.isGenerating, state.suggestions.length, state.errorKind, state.retryAfterMs]);
+
+  // Re-analyze the whole document when the writer picks another mode or
+  // persona, or edits the brief. A generation still running with the old ones
+  // is cancelled first; this effect runs again once it has stopped.
+  useEffect(() => {
+    const changes = [
+      appliedModeRef.current !== mode ? `mode changed to ${mode}` : null,
+      appliedPersonaRef.current !== persona ? `persona changed to ${persona ?? 'all-round'}` : null,
+      appliedBriefKeyRef.current !== briefKey ? 'brief changed' : null,
+    ].filter(Boolean);
+    if (changes.length === 0 || !enabled || !hasProvider) {
+      return;
+    }
+
+    if (state.isGenerating) {
+      abortControllerRef.current?.abort();
+      return;
+    }
+
+    appliedModeRef.current = mode;
+    appliedPersonaRef.current = persona;
+    appliedBriefKeyRef.current = briefKey;
+    if (state.generationCount > 0 && meetsContentThreshold(false)) {
+      // Results for the new settings may already be cached
+      generateSuggestions(`Suggestion ${changes.join(', ')}`, { force: true, refresh: false });
+    }
+  }, [mode, persona, briefKey, enabled, hasProvider, state.isGenerating, state.generationCount, generateSuggestions, meetsContentThreshold]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -660,17 +1045,31 @@ export const useAISuggestions = ({ content, documentTitle, enabled = true }: Use
       if (subsequentTimerRef.current) {
         clearInterval(subsequentTimerRef.current);
       }
+      abortControllerRef.current?.abort();
     };
   }, []);
 
   // Utility functions
   const removeSuggestion = useCallback((suggestionId: string) => {
+    savedAnchorsRef.current.delete(suggestionId);
     setState(prev => ({
       ...prev,
       suggestions: prev.suggestions.filter(s => s.id !== suggestionId)
     }));
   }, []);
 
+  const recordSuggestionOutcome = useCallback((suggestion: Suggestion, outcome: SuggestionOutcome, suggestedText = suggestion.suggestedText) => {
+    recordFeedback({
+      documentId,
+      theme: suggestion.theme,
+      originalText: suggestion.originalText,
+      suggestedText,
+      explanation: suggestion.explanation,
+      model: suggestion.model,
+      outcome,
+    });
+  }, [documentId, recordFeedback]);
+
   const clearAllSuggestions = useCallback(() => {
     setState(prev => ({
       ...prev,
@@ -678,20 +1077,28 @@ export const useAISuggestions = ({ content, documentTitle, enabled = true }: Use
     }));
   }, []);
 
-  const manuallyTriggerSuggestions = useCallback(() => {
+  // `suggestionType` runs a single pass of that type without changing the mode
+  const manuallyTriggerSuggestions = useCallback((suggestionType?: SuggestionType) => {
     if (meetsContentThreshold(false)) {
-      generateSuggestions('Manual full document analysis');
+      generateSuggestions(
+        suggestionType ? `Manual ${suggestionType} pass` : 'Manual refresh of all suggestions',
+        { force: true, suggestionType }
+      );
     }
   }, [generateSuggestions, meetsContentThreshold]);
 
   return {
-    suggestions: state.suggestions,
+    suggestions,
     isGenerating: state.isGenerating,
     error: state.error,
+    errorKind: state.errorKind,
     removeSuggestion,
+    recordSuggestionOutcome,
     clearAllSuggestions,
-    hasApiKey: !!settings.openai_api_key,
+    hasApiKey: hasProvider,
     manuallyTriggerSuggestions,
+    budgetLevel: budget.level ?? undefined,
+    activeSuggestionType: state.activeSuggestionType,
     // Additional useful data
     contentAnalysis: currentAnalysis,
     maxSuggestions,
@@ -1,11 +1,36 @@
 import { useState, useEffect, useCallback } from 'react'
-import { supabase, testSupabaseConnection, type Document } from '@/lib/supabase'
+import { supabase, testSupabaseConnection, type Document, type DocumentSuggestionRow, type DocumentSuggestionStatus } from '@/lib/supabase'
+import { normalizeBrief, type DocumentBrief } from '@shared/ai/documentBrief'
+import { type EditorPersonaId } from '@shared/ai/editorPersonas'
 import { useToast } from '@/hooks/use-toast'
 import { useAuth } from '@/contexts/AuthContext'
+import { type Suggestion } from '@/components/SuggestionPanel'
+
+const toSuggestion = (row: DocumentSuggestionRow): Suggestion => ({
+  id: row.suggestion_id,
+  originalText: row.original_text,
+  suggestedText: row.suggested_text,
+  explanation: row.explanation,
+  alternatives: Array.isArray(row.alternatives) && row.alternatives.length > 0 ? row.alternatives : undefined,
+  // Rows saved before anchors had context only have offsets
+  anchor: row.anchor_start !== null && row.anchor_end !== null
+    ? {
+        quote: row.original_text,
+        prefix: row.anchor_prefix ?? '',
+        suffix: row.anchor_suffix ?? '',
+        start: row.anchor_start,
+        end: row.anchor_end,
+      }
+    : undefined,
+  theme: row.theme ?? undefined,
+  model: row.model ?? undefined,
+})
 
 export const useDocuments = () => {
   const [documents, setDocuments] = useState<Document[]>([])
   const [currentDocument, setCurrentDocument] = useState<Document | null>(null)
+  // Open AI suggestions saved with the current document
+  const [documentSuggestions, setDocumentSuggestions] = useState<Suggestion[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
   const { toast } = useToast()
@@ -77,6 +102,20 @@ export const useDocuments = () => {
         
         throw error
       }
+
+      const { data: suggestionRows, error: suggestionsError } = await supabase
+        .from('document_suggestions')
+        .select('*')
+        .eq('document_id', id)
+        .eq('status', 'open')
+        .order('created_at', { ascending: true })
+
+      // The document still opens without its saved suggestions
+      if (suggestionsError) {
+        console.error('Error loading saved suggestions:', suggestionsError)
+      }
+
+      setDocumentSuggestions((suggestionRows || []).map(toSuggestion))
       setCurrentDocument(data)
       return data
     } catch (error) {
@@ -162,6 +201,106 @@ export const useDocuments = () => {
     }
   }, [user?.id, toast])
 
+  // Save a document's AI settings: its writing brief and reviewer persona.
+  // Empty brief fields are dropped, and a brief with nothing filled in is
+  // stored as null.
+  const saveDocumentSettings = useCallback(async (
+    id: string,
+    settings: { brief?: DocumentBrief | null; persona?: EditorPersonaId | null }
+  ) => {
+    setIsSaving(true)
+    try {
+      const updates: Partial<Pick<Document, 'brief' | 'persona'>> = {}
+      if (settings.brief !== undefined) {
+        updates.brief = normalizeBrief(settings.brief) ?? null
+      }
+      if (settings.persona !== undefined) {
+        updates.persona = settings.persona
+      }
+
+      const { data, error } = await supabase
+        .from('documents')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Supabase settings update error details:', error)
+        throw error
+      }
+      // currentDocument is left alone: replacing it would reset the editor to
+      // the last saved content and drop unsaved edits
+      setDocuments(prev =>
+        prev.map(doc => doc.id === id ? data : doc)
+      )
+
+      return data
+    } catch (error) {
+      console.error('Error saving document settings:', error)
+      toast({
+        title: "Error",
+        description: `Failed to save document settings: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: "destructive",
+      })
+      return null
+    } finally {
+      setIsSaving(false)
+    }
+  }, [toast])
+
+  // Save AI suggestions with their document. Suggestions already saved get
+  // their rebased anchor and are open again. Runs in the background, so
+  // failures are only logged.
+  const saveSuggestions = useCallback(async (documentId: string, suggestions: Suggestion[]) => {
+    if (!user?.id || suggestions.length === 0) return
+
+    const { error } = await supabase
+      .from('document_suggestions')
+      .upsert(
+        suggestions.map(suggestion => ({
+          document_id: documentId,
+          user_id: user.id,
+          suggestion_id: suggestion.id,
+          original_text: suggestion.originalText,
+          suggested_text: suggestion.suggestedText,
+          explanation: suggestion.explanation,
+          alternatives: suggestion.alternatives ?? [],
+          theme: suggestion.theme ?? null,
+          model: suggestion.model ?? null,
+          anchor_prefix: suggestion.anchor?.prefix ?? null,
+          anchor_suffix: suggestion.anchor?.suffix ?? null,
+          anchor_start: suggestion.anchor?.start ?? null,
+          anchor_end: suggestion.anchor?.end ?? null,
+          status: 'open',
+        })),
+        { onConflict: 'document_id,suggestion_id' }
+      )
+
+    if (error) {
+      console.error('Error saving suggestions:', error)
+    }
+  }, [user?.id])
+
+  // Record that saved suggestions were accepted, rejected or went stale
+  const updateSuggestionStatus = useCallback(async (
+    documentId: string,
+    suggestionIds: string[],
+    status: DocumentSuggestionStatus
+  ) => {
+    if (suggestionIds.length === 0) return
+
+    const { error } = await supabase
+      .from('document_suggestions')
+      .update({ status })
+      .eq('document_id', documentId)
+      .in('suggestion_id', suggestionIds)
+
+    if (error) {
+      console.error('Error updating suggestion status:', error)
+    }
+  }, [])
+
   // Delete a document
   const deleteDocument = useCallback(async (id: string) => {
     try {
@@ -361,11 +500,15 @@ export const useDocuments = () => {
   return {
     documents,
     currentDocument,
+    documentSuggestions,
     isLoading,
     isSaving,
     loadDocuments,
     loadDocument,
     saveDocument,
+    saveDocumentSettings,
+    saveSuggestions,
+    updateSuggestionStatus,
     deleteDocument,
     createNewDocument,
     createDocumentWithId,
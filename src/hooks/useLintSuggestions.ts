@@ -0,0 +1,53 @@
+import { useState, useCallback, useMemo } from 'react';
+import { splitIntoParagraphs, toPlainText } from '@shared/ai/chunking';
+import { normalizeBannedPhrases } from '@shared/ai/bannedPhrases';
+import { lintText } from '@/lib/lint/lintEngine';
+import { anchorsOverlap } from '@/lib/textAnchor';
+import { useUserSettings } from '@/hooks/useUserSettings';
+import { type Suggestion } from '@/components/SuggestionPanel';
+
+// Shown in a new document until the writer replaces it
+const PLACEHOLDER_TEXT = 'Start writing your document here...';
+
+interface UseLintSuggestionsProps {
+  content: string;
+  // AI suggestions take precedence: checks on the same text are hidden
+  aiSuggestions?: Suggestion[];
+}
+
+// Offline checks (see lintEngine.ts). They run on every edit, with or without
+// an AI provider and whether or not the AI panel is open.
+export const useLintSuggestions = ({ content, aiSuggestions = [] }: UseLintSuggestionsProps) => {
+  // Checks the writer has accepted or rejected
+  const [dismissedIds, setDismissedIds] = useState<Set<string>>(new Set());
+
+  const { settings } = useUserSettings();
+  const bannedPhrases = useMemo(() => normalizeBannedPhrases(settings.banned_phrases), [settings.banned_phrases]);
+
+  const lintSuggestions = useMemo(() => {
+    const plainText = toPlainText(content);
+    if (!plainText || plainText === PLACEHOLDER_TEXT) {
+      return [];
+    }
+    return lintText(plainText, { bannedPhrases, paragraphs: splitIntoParagraphs(content) });
+  }, [content, bannedPhrases]);
+
+  const suggestions = useMemo(() => lintSuggestions.filter(suggestion =>
+    !dismissedIds.has(suggestion.id)
+      && !aiSuggestions.some(other => !!suggestion.anchor && !!other.anchor && anchorsOverlap(suggestion.anchor, other.anchor))
+  ), [lintSuggestions, dismissedIds, aiSuggestions]);
+
+  const dismissSuggestion = useCallback((suggestionId: string) => {
+    setDismissedIds(prev => new Set(prev).add(suggestionId));
+  }, []);
+
+  const dismissAll = useCallback(() => {
+    setDismissedIds(prev => new Set([...prev, ...lintSuggestions.map(suggestion => suggestion.id)]));
+  }, [lintSuggestions]);
+
+  return {
+    suggestions,
+    dismissSuggestion,
+    dismissAll,
+  };
+};
@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { budgetLevelFor, budgetPeriodStart, type BudgetLevel } from '@shared/ai/budget';
+
+// Tracks this month's estimated AI spend against the user's budget. Spend is
+// only loaded when a budget is set, since without one the level is always normal.
+// With a budget, the level is null (unknown) until spend has loaded, and callers
+// make no automatic requests until then.
+export const useMonthlyBudget = (budget: number | null | undefined) => {
+  const [spent, setSpent] = useState(0);
+  const [hasLoaded, setHasLoaded] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const { user } = useAuth();
+
+  const hasBudget = budget !== null && budget !== undefined;
+
+  const refresh = useCallback(async () => {
+    if (!user || !hasBudget) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('ai_usage_daily')
+        .select('estimated_cost')
+        .gte('day', budgetPeriodStart());
+
+      if (error) {
+        throw error;
+      }
+
+      setSpent((data || []).reduce((sum, row) => sum + Number(row.estimated_cost ?? 0), 0));
+      setHasLoaded(true);
+    } catch (error) {
+      // The Edge Function still enforces the cap, so this only affects how early we degrade
+      console.error('Error loading monthly spend:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, hasBudget]);
+
+  // Spend loaded for another user, or before the budget was set, doesn't count
+  useEffect(() => {
+    setHasLoaded(false);
+    refresh();
+  }, [refresh]);
+
+  const level: BudgetLevel | null = !hasBudget
+    ? 'normal'
+    : hasLoaded ? budgetLevelFor(spent, Number(budget)) : null;
+
+  return {
+    spent,
+    budget: hasBudget ? Number(budget) : null,
+    level,
+    isLoading,
+    refresh,
+  };
+};
@@ -0,0 +1,89 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  FEEDBACK_HISTORY_LIMIT,
+  buildFeedbackProfile,
+  type SuggestionDecision,
+  type SuggestionOutcome,
+} from '@shared/ai/feedbackProfile';
+
+export interface SuggestionFeedbackRecord {
+  documentId?: string;
+  theme?: string;
+  originalText: string;
+  suggestedText: string;
+  explanation: string;
+  // e.g. "openai:gpt-4o"
+  model?: string;
+  outcome: SuggestionOutcome;
+}
+
+// Remembers which suggestions the writer accepts and rejects, and the profile
+// of themes they keep rejecting (see feedbackProfile.ts)
+export const useSuggestionFeedback = () => {
+  // Most recent first, like the query
+  const [decisions, setDecisions] = useState<SuggestionDecision[]>([]);
+  const { user } = useAuth();
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setDecisions([]);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('suggestion_feedback')
+        .select('theme, outcome')
+        .order('created_at', { ascending: false })
+        .limit(FEEDBACK_HISTORY_LIMIT);
+
+      if (error) {
+        throw error;
+      }
+
+      setDecisions(data || []);
+    } catch (error) {
+      // Without a history, suggestions simply aren't filtered
+      console.error('Error loading suggestion feedback:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // The profile updates straight away; the row is saved in the background
+  const recordFeedback = useCallback(async (record: SuggestionFeedbackRecord) => {
+    if (!user) {
+      return;
+    }
+
+    const theme = record.theme || 'general';
+    setDecisions(prev => [{ theme, outcome: record.outcome }, ...prev].slice(0, FEEDBACK_HISTORY_LIMIT));
+
+    const { error } = await supabase.from('suggestion_feedback').insert({
+      user_id: user.id,
+      document_id: record.documentId ?? null,
+      theme,
+      original_text: record.originalText,
+      suggested_text: record.suggestedText,
+      explanation: record.explanation,
+      model: record.model ?? null,
+      outcome: record.outcome,
+    });
+
+    if (error) {
+      console.error('Error saving suggestion feedback:', error);
+    }
+  }, [user]);
+
+  const profile = useMemo(() => buildFeedbackProfile(decisions), [decisions]);
+
+  return {
+    profile,
+    recordFeedback,
+    refresh,
+  };
+};
@@ -0,0 +1,154 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+
+// Row of the ai_usage_daily view (see migration-add-ai-usage.sql)
+interface UsageDailyRow {
+  document_id: string | null;
+  model: string;
+  day: string;
+  requests: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  estimated_cost: number | null;
+  unpriced_requests: number;
+}
+
+export interface DailyUsage {
+  day: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+export interface DocumentUsage {
+  documentId: string | null;
+  title: string;
+  requests: number;
+  tokens: number;
+  cost: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  tokens: number;
+  cost: number;
+  // Some requests used a model without a known price, so `cost` is a lower bound
+  hasUnpricedUsage: boolean;
+}
+
+const EMPTY_TOTALS: UsageTotals = { requests: 0, tokens: 0, cost: 0, hasUnpricedUsage: false };
+
+const toDateKey = (date: Date) => date.toISOString().slice(0, 10);
+
+// One entry per day in the range, including days without usage, so the chart has no gaps
+const buildDailyUsage = (rows: UsageDailyRow[], days: number): DailyUsage[] => {
+  const byDay = new Map<string, DailyUsage>();
+  for (let offset = days - 1; offset >= 0; offset--) {
+    const day = toDateKey(new Date(Date.now() - offset * 24 * 60 * 60 * 1000));
+    byDay.set(day, { day, requests: 0, promptTokens: 0, completionTokens: 0, cost: 0 });
+  }
+
+  rows.forEach(row => {
+    const entry = byDay.get(row.day);
+    if (entry) {
+      entry.requests += Number(row.requests);
+      entry.promptTokens += Number(row.prompt_tokens);
+      entry.completionTokens += Number(row.completion_tokens);
+      entry.cost += Number(row.estimated_cost ?? 0);
+    }
+  });
+
+  return Array.from(byDay.values());
+};
+
+const buildDocumentUsage = (rows: UsageDailyRow[], titles: Map<string, string>): DocumentUsage[] => {
+  const byDocument = new Map<string, DocumentUsage>();
+
+  rows.forEach(row => {
+    const key = row.document_id ?? '';
+    const entry = byDocument.get(key) ?? {
+      documentId: row.document_id,
+      title: (row.document_id && titles.get(row.document_id)) || 'Deleted or unsaved documents',
+      requests: 0,
+      tokens: 0,
+      cost: 0,
+    };
+    entry.requests += Number(row.requests);
+    entry.tokens += Number(row.prompt_tokens) + Number(row.completion_tokens);
+    entry.cost += Number(row.estimated_cost ?? 0);
+    byDocument.set(key, entry);
+  });
+
+  return Array.from(byDocument.values()).sort((a, b) => b.cost - a.cost || b.tokens - a.tokens);
+};
+
+export const useUsageStats = (days: number = 30) => {
+  const [daily, setDaily] = useState<DailyUsage[]>([]);
+  const [byDocument, setByDocument] = useState<DocumentUsage[]>([]);
+  const [totals, setTotals] = useState<UsageTotals>(EMPTY_TOTALS);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
+
+  const loadUsage = useCallback(async () => {
+    if (!user) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const since = toDateKey(new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000));
+      const { data, error: usageError } = await supabase
+        .from('ai_usage_daily')
+        .select('document_id, model, day, requests, prompt_tokens, completion_tokens, estimated_cost, unpriced_requests')
+        .gte('day', since)
+        .order('day', { ascending: true });
+
+      if (usageError) {
+        throw usageError;
+      }
+
+      const rows: UsageDailyRow[] = data || [];
+      const documentIds = Array.from(new Set(rows.map(row => row.document_id).filter((id): id is string => !!id)));
+      const titles = new Map<string, string>();
+      if (documentIds.length > 0) {
+        const { data: documents } = await supabase
+          .from('documents')
+          .select('id, title')
+          .in('id', documentIds);
+        (documents || []).forEach(document => titles.set(document.id, document.title));
+      }
+
+      setDaily(buildDailyUsage(rows, days));
+      setByDocument(buildDocumentUsage(rows, titles));
+      setTotals(rows.reduce<UsageTotals>((sum, row) => ({
+        requests: sum.requests + Number(row.requests),
+        tokens: sum.tokens + Number(row.prompt_tokens) + Number(row.completion_tokens),
+        cost: sum.cost + Number(row.estimated_cost ?? 0),
+        hasUnpricedUsage: sum.hasUnpricedUsage || Number(row.unpriced_requests) > 0,
+      }), EMPTY_TOTALS));
+    } catch (loadError) {
+      console.error('Error loading usage:', loadError);
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load usage');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, days]);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  return {
+    daily,
+    byDocument,
+    totals,
+    isLoading,
+    error,
+    reload: loadUsage,
+  };
+};
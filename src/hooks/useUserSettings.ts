@@ -2,23 +2,73 @@ import { useState, useEffect } from 'react';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { OpenAIService } from '@/lib/openai';
+import { DEFAULT_AI_PROVIDER, getProvider, isProviderConfigured, type AIProviderId } from '@shared/ai/providers';
+import { type PromptTemplate } from '@shared/ai/promptTemplates';
+import { type BannedPhrase } from '@shared/ai/bannedPhrases';
 
 export interface UserSettings {
   id?: string;
   user_id?: string;
-  openai_api_key?: string;
+  // Generated columns in the database, one per provider. The keys themselves
+  // are encrypted and can only be written through updateApiKey, never read back
   has_openai_api_key?: boolean;
+  has_anthropic_api_key?: boolean;
+  // Cleared by the database whenever ai_base_url changes
+  has_openai_compatible_api_key?: boolean;
+  ai_provider: AIProviderId;
+  ai_base_url?: string | null;
   ai_model: string;
   suggestion_frequency: 'low' | 'normal' | 'high';
+  // Monthly spending cap in USD; null means no cap
+  monthly_budget_usd?: number | null;
+  // Prompt template library; null active id means the built-in prompt
+  prompt_templates?: PromptTemplate[];
+  active_prompt_template_id?: string | null;
+  style_rules?: string[];
+  // Phrases the writer never wants to use, with optional replacements
+  banned_phrases?: BannedPhrase[];
   created_at?: string;
   updated_at?: string;
 }
 
+// Every column except the encrypted keys, which only the Edge Functions read
+const SETTINGS_COLUMNS = 'id, user_id, has_openai_api_key, has_anthropic_api_key, has_openai_compatible_api_key, ai_provider, ai_base_url, ai_model, suggestion_frequency, monthly_budget_usd, prompt_templates, active_prompt_template_id, style_rules, banned_phrases, created_at, updated_at';
+
+// Which generated column says whether each provider has a key
+const HAS_API_KEY_FIELDS = {
+  'openai': 'has_openai_api_key',
+  'anthropic': 'has_anthropic_api_key',
+  'openai-compatible': 'has_openai_compatible_api_key',
+} as const satisfies Record<AIProviderId, keyof UserSettings>;
+
 const defaultSettings: UserSettings = {
-  openai_api_key: '',
   has_openai_api_key: false,
+  has_anthropic_api_key: false,
+  has_openai_compatible_api_key: false,
+  ai_provider: DEFAULT_AI_PROVIDER,
+  ai_base_url: null,
   ai_model: 'gpt-3.5-turbo',
   suggestion_frequency: 'normal',
+  monthly_budget_usd: null,
+  prompt_templates: [],
+  active_prompt_template_id: null,
+  style_rules: [],
+  banned_phrases: [],
+};
+
+// Whether the user has entered a key for this provider
+export const hasApiKeyFor = (settings: UserSettings, providerId: AIProviderId): boolean =>
+  !!settings[HAS_API_KEY_FIELDS[providerId]];
+
+// True when the selected provider can be called: either it has a key or it doesn't need one.
+// The mock provider needs neither.
+export const hasUsableAIProvider = (settings: UserSettings): boolean => {
+  if (OpenAIService.isUsingMockProvider()) {
+    return true;
+  }
+  const provider = getProvider(settings.ai_provider);
+  return isProviderConfigured({ provider: provider.id, hasApiKey: hasApiKeyFor(settings, provider.id) });
 };
 
 export const useUserSettings = () => {
@@ -39,7 +89,7 @@ export const useUserSettings = () => {
       setIsLoading(true);
       const { data, error } = await supabase
         .from('user_settings')
-        .select('*')
+        .select(SETTINGS_COLUMNS)
         .eq('user_id', user.id)
         .single();
 
@@ -54,12 +104,7 @@ export const useUserSettings = () => {
       }
 
       if (data) {
-        // Compute has_openai_api_key based on whether openai_api_key has a value
-        const settingsWithComputedFields = {
-          ...data,
-          has_openai_api_key: !!(data.openai_api_key && data.openai_api_key.trim().length > 0)
-        };
-        setSettings(settingsWithComputedFields);
+        setSettings(data as UserSettings);
       } else {
         // No settings found, use defaults
         setSettings(defaultSettings);
@@ -85,7 +130,12 @@ export const useUserSettings = () => {
       const updatedSettings = { ...settings, ...newSettings };
 
       // Remove computed fields that shouldn't be saved to the database
-      const { has_openai_api_key, ...settingsToSave } = updatedSettings;
+      const {
+        has_openai_api_key,
+        has_anthropic_api_key,
+        has_openai_compatible_api_key,
+        ...settingsToSave
+      } = updatedSettings;
 
       const { data, error } = await supabase
         .from('user_settings')
@@ -93,7 +143,7 @@ export const useUserSettings = () => {
           user_id: user.id,
           ...settingsToSave,
         })
-        .select()
+        .select(SETTINGS_COLUMNS)
         .single();
 
       if (error) {
@@ -106,13 +156,7 @@ export const useUserSettings = () => {
         return false;
       }
 
-      // Compute has_openai_api_key for the returned data
-      const settingsWithComputedFields = {
-        ...data,
-        has_openai_api_key: !!(data.openai_api_key && data.openai_api_key.trim().length > 0)
-      };
-      
-      setSettings(settingsWithComputedFields);
+      setSettings(data as UserSettings);
       toast({
         title: "Settings saved",
         description: "Your settings have been updated successfully.",
@@ -136,11 +180,40 @@ export const useUserSettings = () => {
     return await saveSettings({ [key]: value });
   };
 
-  // Update API key specifically
-  const updateApiKey = async (apiKey: string) => {
-    return await saveSettings({ 
-      openai_api_key: apiKey
-    });
+  // Update the API key for one provider. Keys are encrypted by the api-key Edge
+  // Function, the only path allowed to write them
+  const updateApiKey = async (providerId: AIProviderId, apiKey: string | null) => {
+    if (!user) return false;
+
+    try {
+      setIsSaving(true);
+      const { data, error } = await supabase.functions.invoke<{ hasApiKey: boolean }>('api-key', {
+        body: { provider: providerId, apiKey },
+      });
+
+      if (error) {
+        console.error('Error saving API key:', error);
+        toast({
+          title: "Error saving API key",
+          description: error.message,
+          variant: "destructive",
+        });
+        return false;
+      }
+
+      setSettings(prev => ({ ...prev, [HAS_API_KEY_FIELDS[providerId]]: !!data?.hasApiKey }));
+      return true;
+    } catch (error) {
+      console.error('Unexpected error saving API key:', error);
+      toast({
+        title: "Error saving API key",
+        description: "An unexpected error occurred",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   // Load settings when user changes
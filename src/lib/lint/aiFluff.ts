@@ -0,0 +1,144 @@
+import { escapeRegExp, matchCase } from '@/lib/lint/textUtils';
+
+// Local detector for phrasing that language models lean on: stock words and
+// phrases ("delve", "tapestry"), em dashes leading into lists of three, and
+// stacked hedges. Findings are reported through the lint engine, and their
+// density gives the document's humanness score.
+
+export const AI_FLUFF_THEME = 'ai-fluff';
+
+export type AIFluffKind = 'phrase' | 'em-dash-triad' | 'hedging-stack';
+
+export interface AIFluffFinding {
+  kind: AIFluffKind;
+  // Offsets into the scanned text
+  start: number;
+  end: number;
+  suggestedText?: string;
+  explanation: string;
+}
+
+// Stock phrases, with a plainer replacement where one fits every context
+const FLUFF_PHRASES: Record<string, string | null> = {
+  'delve into': 'explore',
+  'delves into': 'explores',
+  'delved into': 'explored',
+  'delve': null,
+  'delves': null,
+  'rich tapestry': null,
+  'tapestry': null,
+  "in today's fast-paced world": null,
+  "in today's digital age": null,
+  'in the ever-evolving landscape': null,
+  'ever-evolving': null,
+  "it's important to note that": null,
+  'it is important to note that': null,
+  "it's worth noting that": null,
+  'it is worth noting that': null,
+  'a testament to': null,
+  'plays a crucial role in': null,
+  'plays a pivotal role in': null,
+  'navigate the complexities of': null,
+  'in the realm of': 'in',
+  'unlock the potential of': null,
+  'harness the power of': 'use',
+  'embark on a journey': null,
+  'a myriad of': 'many',
+  'seamlessly': null,
+  'game-changer': null,
+  'at the end of the day': null,
+};
+
+// "leverage" is only a stock phrase as a verb ("leverage our data"); the noun
+// ("we have leverage") is fine, so only forms followed by a determiner count
+const LEVERAGE_VERBS: Record<string, string> = {
+  leverage: 'use',
+  leverages: 'uses',
+  leveraged: 'used',
+  leveraging: 'using',
+};
+const LEVERAGE_VERB_PATTERN = /\bleverag(?:e|es|ed|ing)\b(?=\s+(?:the|a|an|our|your|their|its|his|her|my|this|that|these|those)\b)/gi;
+
+const HEDGES = [
+  'may', 'might', 'could', 'perhaps', 'possibly', 'potentially', 'arguably', 'somewhat', 'likely',
+  'probably', 'seemingly', 'apparently', 'presumably', 'conceivably', 'generally',
+];
+
+// Fewer words than this and a single tell swings the score too far
+export const MIN_SCORED_WORDS = 30;
+// Points lost per finding per 100 words
+const SCORE_PENALTY = 20;
+
+// Longest phrases first, so "delve into" wins over "delve". Apostrophes match
+// the curly ones the editor may insert.
+const FLUFF_PATTERN = new RegExp(
+  `\\b(?:${Object.keys(FLUFF_PHRASES)
+    .sort((a, b) => b.length - a.length)
+    .map(phrase => escapeRegExp(phrase).replace(/'/g, "['’]"))
+    .join('|')})\\b`,
+  'gi'
+);
+
+// An em dash followed by "a, b, and c" before the sentence ends
+const EM_DASH_TRIAD_PATTERN = /—\s*[^—.!?,]+,\s*[^—.!?,]+,\s*(?:and|or)\s+[^—.!?,]+/g;
+
+// Two hedges with at most three words between them
+const HEDGING_STACK_PATTERN = new RegExp(`\\b(?:${HEDGES.join('|')})\\b(?:\\s+\\S+){0,3}?\\s+(?:${HEDGES.join('|')})\\b`, 'gi');
+
+const phraseFinding = (match: RegExpMatchArray, replacement: string | null | undefined): AIFluffFinding => ({
+  kind: 'phrase',
+  start: match.index ?? 0,
+  end: (match.index ?? 0) + match[0].length,
+  suggestedText: replacement ? matchCase(replacement, match[0]) : undefined,
+  explanation: replacement
+    ? `"${match[0]}" is a stock phrase of AI-generated text. "${replacement}" says the same thing plainly.`
+    : `"${match[0]}" is a stock phrase of AI-generated text. Say what you mean in your own words, or cut it.`,
+});
+
+export const findAIFluff = (text: string): AIFluffFinding[] => {
+  const phrases = [
+    ...[...text.matchAll(FLUFF_PATTERN)].map(match =>
+      phraseFinding(match, FLUFF_PHRASES[match[0].toLowerCase().replace(/’/g, "'")])
+    ),
+    ...[...text.matchAll(LEVERAGE_VERB_PATTERN)].map(match =>
+      phraseFinding(match, LEVERAGE_VERBS[match[0].toLowerCase()])
+    ),
+  ];
+
+  const triads = [...text.matchAll(EM_DASH_TRIAD_PATTERN)].map((match): AIFluffFinding => ({
+    kind: 'em-dash-triad',
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+    explanation: 'An em dash leading into a list of three is a rhythm language models overuse. Keep the item that matters most, or write it as its own sentence.',
+  }));
+
+  const hedges = [...text.matchAll(HEDGING_STACK_PATTERN)].map((match): AIFluffFinding => ({
+    kind: 'hedging-stack',
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+    explanation: `"${match[0]}" stacks hedges. One qualifier is enough, or none if you're sure.`,
+  }));
+
+  return [...phrases, ...triads, ...hedges].sort((a, b) => a.start - b.start);
+};
+
+export interface HumannessResult {
+  // 0-100, or null when the text is too short to judge
+  score: number | null;
+  label: string;
+  findings: number;
+  words: number;
+}
+
+export const scoreHumanness = (plainText: string): HumannessResult => {
+  const words = plainText.split(/\s+/).filter(word => /\w/.test(word)).length;
+  const findings = findAIFluff(plainText).length;
+
+  if (words < MIN_SCORED_WORDS) {
+    return { score: null, label: 'Too short to score', findings, words };
+  }
+
+  const score = Math.max(0, Math.round(100 - (findings / words) * 100 * SCORE_PENALTY));
+  const label = score >= 80 ? 'Reads human' : score >= 50 ? 'Some AI tells' : 'Reads AI-written';
+  return { score, label, findings, words };
+};
@@ -0,0 +1,339 @@
+import { hashText, type Paragraph } from '@shared/ai/chunking';
+import { type BannedPhrase } from '@shared/ai/bannedPhrases';
+import { AI_FLUFF_THEME, findAIFluff } from '@/lib/lint/aiFluff';
+import { escapeRegExp, matchCase } from '@/lib/lint/textUtils';
+import { splitSentences } from '@/lib/readability';
+import { anchorsOverlap, createAnchor, type TextAnchor } from '@/lib/textAnchor';
+import { type Suggestion } from '@/components/SuggestionPanel';
+
+// Offline writing checks. They run in the browser on the editor's plain text,
+// need no AI provider, and report regular Suggestions (theme 'lint') so they
+// share the editor's highlights and accept/reject flow with AI suggestions.
+// Checks that only point something out keep suggestedText equal to
+// originalText. AI fluff and the writer's banned phrases get their own themes
+// so they stand out.
+
+export const LINT_THEME = 'lint';
+export const STYLE_GUIDE_THEME = 'style-guide';
+
+export type LintRuleId =
+  | 'banned-phrase'
+  | 'doubled-word'
+  | 'ai-fluff'
+  | 'nominalization'
+  | 'intensifier'
+  | 'long-sentence'
+  | 'adverbs'
+  | 'passive-voice'
+  | 'weasel-word';
+
+// Where two findings overlap, the one whose rule comes first wins. Rules that
+// come with a fix go first.
+const RULE_PRIORITY: LintRuleId[] = [
+  'banned-phrase',
+  'doubled-word',
+  'ai-fluff',
+  'nominalization',
+  'intensifier',
+  'long-sentence',
+  'adverbs',
+  'passive-voice',
+  'weasel-word',
+];
+
+export const MAX_LINT_SUGGESTIONS = 20;
+export const LONG_SENTENCE_WORDS = 35;
+// -ly adverbs in one sentence before it is flagged
+export const ADVERB_LIMIT = 3;
+
+// Words that are correctly written twice in a row
+const ALLOWED_DOUBLES = new Set(['had', 'that', 'is', 'do']);
+
+// Noun phrases that hide a verb, with the verb
+const NOMINALIZATIONS: Record<string, string> = {
+  'make a decision': 'decide',
+  'made a decision': 'decided',
+  'makes a decision': 'decides',
+  'reach a conclusion': 'conclude',
+  'reached a conclusion': 'concluded',
+  'give consideration to': 'consider',
+  'gave consideration to': 'considered',
+  'take into consideration': 'consider',
+  'conduct an investigation': 'investigate',
+  'conducted an investigation': 'investigated',
+  'perform an analysis': 'analyze',
+  'performed an analysis': 'analyzed',
+  'provide assistance': 'help',
+  'provided assistance': 'helped',
+  'make an assumption': 'assume',
+  'made an assumption': 'assumed',
+  'make a recommendation': 'recommend',
+  'made a recommendation': 'recommended',
+  'have a discussion': 'discuss',
+  'had a discussion': 'discussed',
+  'is in agreement': 'agrees',
+  'are in agreement': 'agree',
+  'come to an agreement': 'agree',
+  'came to an agreement': 'agreed',
+  'make an improvement': 'improve',
+  'made an improvement': 'improved',
+  'do an evaluation': 'evaluate',
+  'did an evaluation': 'evaluated',
+};
+
+// Intensifiers that rarely add meaning; the fix drops them
+const INTENSIFIERS = ['very', 'really', 'extremely', 'totally', 'absolutely', 'incredibly', 'basically', 'literally', 'truly'];
+
+// Following words that need the intensifier, e.g. "very much"
+const INTENSIFIER_KEEPS = new Set(['much', 'many', 'few', 'little', 'well', 'same', 'first', 'last', 'own', 'long', 'good', 'bad']);
+
+// Words ending in -ly that aren't adverbs
+const NOT_ADVERBS = new Set([
+  'only', 'early', 'family', 'reply', 'apply', 'supply', 'likely', 'daily', 'weekly', 'monthly', 'yearly',
+  'quarterly', 'holy', 'ugly', 'friendly', 'lonely', 'lovely', 'silly', 'belly', 'bully', 'fly', 'july',
+  'italy', 'rally', 'ally', 'assembly', 'anomaly', 'monopoly', 'imply', 'comply', 'multiply', 'rely',
+  'butterfly', 'jelly', 'elderly', 'costly', 'timely', 'orderly', 'deadly', 'lively', 'curly', 'hilly',
+]);
+
+// Past participles that don't end in -ed
+const IRREGULAR_PARTICIPLES = [
+  'known', 'made', 'done', 'given', 'taken', 'written', 'seen', 'shown', 'built', 'found', 'held', 'kept',
+  'left', 'lost', 'paid', 'said', 'sent', 'sold', 'told', 'thought', 'understood', 'won', 'brought',
+  'bought', 'caught', 'chosen', 'driven', 'eaten', 'forgotten', 'hidden', 'broken', 'spoken', 'stolen',
+  'worn', 'torn', 'begun', 'drawn', 'grown', 'thrown', 'led', 'met', 'set', 'put', 'cut', 'hit', 'read',
+];
+
+// Words ending in -ed that aren't participles, or read as adjectives after "to be"
+const NOT_PARTICIPLES = new Set([
+  'indeed', 'need', 'seed', 'speed', 'feed', 'bleed', 'proceed', 'succeed', 'exceed', 'embed', 'shed',
+  'red', 'bed', 'hundred', 'naked', 'wicked', 'sacred', 'rugged', 'beloved', 'aged', 'interested',
+  'tired', 'excited', 'bored', 'worried', 'married', 'pleased', 'scared', 'supposed', 'allowed',
+]);
+
+// Claims without a source, and qualifiers that commit to nothing
+const WEASEL_PHRASES = [
+  'some people say', 'many people believe', 'many people think', 'it is said', 'it is believed',
+  'it is widely accepted', 'it could be argued', 'studies show', 'research shows', 'experts say',
+  'critics say', 'arguably', 'to some extent', 'in some ways', 'somewhat', 'more or less',
+];
+
+const BE_VERBS = '(?:am|is|are|was|were|be|been|being)';
+
+interface LintFinding {
+  rule: LintRuleId;
+  // Offsets into the sentence
+  start: number;
+  end: number;
+  suggestedText?: string;
+  explanation: string;
+  theme?: string;
+}
+
+const phrasePattern = (phrases: string[]) =>
+  new RegExp(`\\b(?:${phrases.map(escapeRegExp).join('|')})\\b`, 'gi');
+
+const NOMINALIZATION_PATTERN = phrasePattern(Object.keys(NOMINALIZATIONS));
+const INTENSIFIER_PATTERN = new RegExp(`\\b(${INTENSIFIERS.join('|')})\\s+([A-Za-z']+)\\b`, 'gi');
+const WEASEL_PATTERN = phrasePattern(WEASEL_PHRASES);
+const PASSIVE_PATTERN = new RegExp(`\\b${BE_VERBS}\\s+(?:[a-z]+ly\\s+)?([a-z]{2,}ed|${IRREGULAR_PARTICIPLES.join('|')})\\b`, 'gi');
+
+const countWords = (text: string) => text.split(/\s+/).filter(word => /\w/.test(word)).length;
+
+const findDoubledWords = (sentence: string): LintFinding[] =>
+  [...sentence.matchAll(/\b([A-Za-z']+)\s+\1\b/gi)]
+    .filter(match => !ALLOWED_DOUBLES.has(match[1].toLowerCase()))
+    .map(match => ({
+      rule: 'doubled-word',
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + match[0].length,
+      suggestedText: match[1],
+      explanation: `"${match[1]}" appears twice in a row.`,
+    }));
+
+const findFluff = (sentence: string): LintFinding[] =>
+  findAIFluff(sentence).map(finding => ({
+    rule: 'ai-fluff',
+    start: finding.start,
+    end: finding.end,
+    suggestedText: finding.suggestedText,
+    explanation: finding.explanation,
+    theme: AI_FLUFF_THEME,
+  }));
+
+const findNominalizations = (sentence: string): LintFinding[] =>
+  [...sentence.matchAll(NOMINALIZATION_PATTERN)].map(match => {
+    const verb = NOMINALIZATIONS[match[0].toLowerCase()];
+    return {
+      rule: 'nominalization',
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + match[0].length,
+      suggestedText: matchCase(verb, match[0]),
+      explanation: `"${match[0]}" buries the action in a noun. "${verb}" says it directly.`,
+    };
+  });
+
+const findIntensifiers = (sentence: string): LintFinding[] =>
+  [...sentence.matchAll(INTENSIFIER_PATTERN)]
+    .filter(match => !INTENSIFIER_KEEPS.has(match[2].toLowerCase()))
+    .map(match => ({
+      rule: 'intensifier',
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + match[0].length,
+      suggestedText: matchCase(match[2], match[0]),
+      explanation: `"${match[1]}" adds little here. If "${match[2]}" isn't strong enough, a more precise word usually is.`,
+    }));
+
+const findLongSentence = (sentence: string): LintFinding[] => {
+  const words = countWords(sentence);
+  return words > LONG_SENTENCE_WORDS ? [{
+    rule: 'long-sentence',
+    start: 0,
+    end: sentence.length,
+    explanation: `This sentence is ${words} words long. Consider splitting it so each part makes one point.`,
+  }] : [];
+};
+
+const findAdverbs = (sentence: string): LintFinding[] => {
+  const adverbs = [...sentence.matchAll(/\b[A-Za-z]{3,}ly\b/g)]
+    .map(match => match[0])
+    .filter(word => !NOT_ADVERBS.has(word.toLowerCase()));
+  return adverbs.length >= ADVERB_LIMIT ? [{
+    rule: 'adverbs',
+    start: 0,
+    end: sentence.length,
+    explanation: `This sentence leans on ${adverbs.length} adverbs (${adverbs.join(', ')}). Stronger verbs and nouns would do the work better.`,
+  }] : [];
+};
+
+const findPassiveVoice = (sentence: string): LintFinding[] =>
+  [...sentence.matchAll(PASSIVE_PATTERN)]
+    .filter(match => !NOT_PARTICIPLES.has(match[1].toLowerCase()))
+    .map(match => ({
+      rule: 'passive-voice',
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + match[0].length,
+      explanation: `"${match[0]}" is passive voice. Saying who does it usually reads more directly.`,
+    }));
+
+const findWeaselWords = (sentence: string): LintFinding[] =>
+  [...sentence.matchAll(WEASEL_PATTERN)].map(match => ({
+    rule: 'weasel-word',
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+    explanation: `"${match[0]}" is vague. Name the source or the amount, or make the point plainly.`,
+  }));
+
+// Flags every phrase on the writer's list, with its replacement as the fix.
+// Matching ignores case and only finds whole words.
+const bannedPhraseRule = (bannedPhrases: BannedPhrase[]) => {
+  if (bannedPhrases.length === 0) {
+    return (): LintFinding[] => [];
+  }
+
+  const replacements = new Map(bannedPhrases.map(({ phrase, replacement }) => [phrase.toLowerCase(), replacement]));
+  const pattern = new RegExp(
+    bannedPhrases
+      .map(({ phrase }) => phrase)
+      .sort((a, b) => b.length - a.length)
+      .map(phrase => `${/^\w/.test(phrase) ? '\\b' : ''}${escapeRegExp(phrase)}${/\w$/.test(phrase) ? '\\b' : ''}`)
+      .join('|'),
+    'gi'
+  );
+
+  return (sentence: string): LintFinding[] =>
+    [...sentence.matchAll(pattern)].map(match => {
+      const replacement = replacements.get(match[0].toLowerCase());
+      return {
+        rule: 'banned-phrase',
+        start: match.index ?? 0,
+        end: (match.index ?? 0) + match[0].length,
+        suggestedText: replacement ? matchCase(replacement, match[0]) : undefined,
+        explanation: replacement
+          ? `"${match[0]}" is on your banned list. You prefer "${replacement}".`
+          : `"${match[0]}" is on your banned list.`,
+        theme: STYLE_GUIDE_THEME,
+      };
+    });
+};
+
+const RULES: Record<Exclude<LintRuleId, 'banned-phrase'>, (sentence: string) => LintFinding[]> = {
+  'doubled-word': findDoubledWords,
+  'ai-fluff': findFluff,
+  nominalization: findNominalizations,
+  intensifier: findIntensifiers,
+  'long-sentence': findLongSentence,
+  adverbs: findAdverbs,
+  'passive-voice': findPassiveVoice,
+  'weasel-word': findWeaselWords,
+};
+
+export const isLintSuggestionId = (id: string) => id.startsWith(`${LINT_THEME}:`);
+
+type AnchoredSuggestion = Suggestion & { anchor: TextAnchor };
+
+export interface LintOptions {
+  // The writer's banned phrases; see supabase/functions/_shared/ai/bannedPhrases.ts
+  bannedPhrases?: BannedPhrase[];
+  // The blocks of the HTML the plain text came from (see splitIntoParagraphs).
+  // Sentences are split within each block, so no finding runs from one block
+  // into the next just because stripping the tags joined their text.
+  paragraphs?: Pick<Paragraph, 'text' | 'start'>[];
+}
+
+// Entities are all that is left of the HTML in plain text. A match inside one,
+// e.g. a banned "amp" in "&amp;", is markup rather than anything the writer wrote.
+const ENTITY_PATTERN = /&(?:#\d+|#x[\da-f]+|[a-z][a-z\d]*);/gi;
+
+const entityRanges = (plainText: string) =>
+  [...plainText.matchAll(ENTITY_PATTERN)].map(match => ({
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+
+// Runs every rule over `plainText` and returns at most MAX_LINT_SUGGESTIONS
+// non-overlapping suggestions, in document order
+export const lintText = (plainText: string, { bannedPhrases = [], paragraphs }: LintOptions = {}): Suggestion[] => {
+  const rules: Record<LintRuleId, (sentence: string) => LintFinding[]> = {
+    ...RULES,
+    'banned-phrase': bannedPhraseRule(bannedPhrases),
+  };
+  const sentences = paragraphs
+    ? paragraphs.flatMap(paragraph =>
+        splitSentences(paragraph.text).map(sentence => ({ ...sentence, start: paragraph.start + sentence.start }))
+      )
+    : splitSentences(plainText);
+  const entities = entityRanges(plainText);
+
+  const candidates = sentences.flatMap(sentence => {
+    const sentenceHash = hashText(sentence.text);
+    return RULE_PRIORITY.flatMap(rule => rules[rule](sentence.text)).map(finding => {
+      const originalText = sentence.text.slice(finding.start, finding.end);
+      return {
+        priority: RULE_PRIORITY.indexOf(finding.rule),
+        suggestion: {
+          // Only depends on the rule, the sentence and the offset within it, so
+          // a dismissed finding stays dismissed until its sentence is edited
+          id: `${LINT_THEME}:${finding.rule}:${sentenceHash}:${finding.start}`,
+          originalText,
+          suggestedText: finding.suggestedText ?? originalText,
+          explanation: finding.explanation,
+          anchor: createAnchor(plainText, sentence.start + finding.start, sentence.start + finding.end),
+          theme: finding.theme ?? LINT_THEME,
+        },
+      };
+    });
+  });
+
+  const accepted: AnchoredSuggestion[] = [];
+  candidates
+    .filter(({ suggestion }) => !entities.some(entity => anchorsOverlap(suggestion.anchor, entity)))
+    .sort((a, b) => a.priority - b.priority || a.suggestion.anchor.start - b.suggestion.anchor.start)
+    .forEach(({ suggestion }) => {
+      const overlaps = accepted.some(existing => anchorsOverlap(suggestion.anchor, existing.anchor));
+      if (!overlaps && accepted.length < MAX_LINT_SUGGESTIONS) {
+        accepted.push(suggestion);
+      }
+    });
+
+  return accepted.sort((a, b) => a.anchor.start - b.anchor.start);
+};
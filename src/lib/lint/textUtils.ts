@@ -0,0 +1,7 @@
+// Small string helpers shared by the offline checks
+
+export const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Keeps a capital letter at the start of replaced text
+export const matchCase = (replacement: string, original: string) =>
+  /^[A-Z]/.test(original) ? replacement.charAt(0).toUpperCase() + replacement.slice(1) : replacement;
@@ -1,250 +1,323 @@
-interface OpenAIMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-}
+import { supabase } from '@/lib/supabase';
+import { readServerSentEvents } from '@shared/ai/sse';
+import { type ParsedSuggestion } from '@shared/ai/suggestionSchema';
+import { type DocumentContext, type SuggestionType } from '@shared/ai/suggestionEngine';
+import { briefCacheKey } from '@shared/ai/documentBrief';
+import { type EditorPersonaId } from '@shared/ai/editorPersonas';
+import {
+  DEFAULT_WINDOW_TOKENS,
+  buildAnalysisWindows,
+  createWindow,
+  mapSuggestionToDocument,
+  type AnalysisWindow,
+  type DocumentSuggestion,
+} from '@shared/ai/chunking';
+import { AIServiceError, errorKindForStatus, parseRetryAfter, withNetworkErrors, type AIErrorKind } from '@shared/ai/errors';
+import { DEFAULT_MOCK_OPTIONS, MockSuggestionProvider, type MockProviderOptions } from '@shared/ai/mockProvider';
+import { SuggestionCache } from '@/lib/suggestionCache';
+import { requestScheduler } from '@/lib/requestScheduler';
 
-interface OpenAIResponse {
-  choices: {
-    message: {
-      content: string;
-    };
-  }[];
+export type { ParsedSuggestion } from '@shared/ai/suggestionSchema';
+export type { DocumentSuggestion } from '@shared/ai/chunking';
 
+interface SuggestionRequest {
+  content: string;
+  suggestionType?: SuggestionType;
+  persona?: EditorPersonaId;
+  documentContext?: DocumentContext;
+  // Token usage is recorded against this document
+  documentId?: string;
+  // When provided, the response is streamed and each suggestion is reported
+  // as soon as it has been fully received
+  onSuggestion?: (suggestion: ParsedSuggestion) => void;
+  // Aborting cancels the request, including any queued retries
+  signal?: AbortSignal;
 }
 
-interface SuggestionRequest {
+interface DocumentSuggestionRequest {
   content: string;
-  apiKey: string;
+  // Precomputed windows; built from `content` when omitted
+  windows?: AnalysisWindow[];
+  suggestionType?: SuggestionType;
+  persona?: EditorPersonaId;
+  documentContext?: DocumentContext;
+  documentId?: string;
+  onSuggestion?: (suggestion: DocumentSuggestion) => void;
+  // Called for every window that was analyzed successfully
+  onWindowComplete?: (analysisWindow: AnalysisWindow) => void;
+  // Provider and model the suggestions come from, e.g. "openai:gpt-4o".
+  // Results are only cached when this is set.
   model?: string;
-  suggestionType?: 'general' | 'conciseness' | 'clarity' | 'engagement' | 'expand' | 'rephrase_alternatives';
-  documentContext?: {
-    title?: string;
-    overallGoal?: string; 
-  };
-  
+  // Identifies the active prompt template and style rules (see
+  // promptSettingsKey), which the Edge Function reads from settings
+  promptKey?: string;
+  // Skip cache lookups and overwrite the cached results
+  refresh?: boolean;
+  windowTokens?: number;
+  signal?: AbortSignal;
 }
 
-interface ParsedSuggestion {
-  originalText: string;
-  suggestedText: string;
-  explanation: string;
-}
+// Events sent by the `suggest` Edge Function when streaming
+type SuggestStreamEvent =
+  | { type: 'suggestion'; suggestion: ParsedSuggestion }
+  | { type: 'done'; suggestions: ParsedSuggestion[] }
+  | { type: 'error'; message: string; kind?: AIErrorKind; retryAfterMs?: number };
+
+// Provider calls happen server-side in the `suggest` Edge Function, which reads
+// the user's API key from the database. The key never reaches the browser.
+const SUGGEST_ENDPOINT = import.meta.env.VITE_AI_PROXY_URL
+  || `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/suggest`;
+
+// VITE_AI_PROVIDER=mock swaps the Edge Function for the offline mock provider.
+// Latency and failure injection are tuned with VITE_MOCK_AI_LATENCY_MS,
+// VITE_MOCK_AI_FAIL_EVERY and VITE_MOCK_AI_FAILURE_KIND.
+const mockOptionsFromEnv = (): MockProviderOptions | null => {
+  if (import.meta.env.VITE_AI_PROVIDER !== 'mock') {
+    return null;
+  }
+
+  const latencyMs = Number(import.meta.env.VITE_MOCK_AI_LATENCY_MS);
+  const failEvery = Number(import.meta.env.VITE_MOCK_AI_FAIL_EVERY);
+  return {
+    latencyMs: Number.isFinite(latencyMs) && latencyMs >= 0 ? latencyMs : DEFAULT_MOCK_OPTIONS.latencyMs,
+    failEvery: Number.isInteger(failEvery) && failEvery > 0 ? failEvery : DEFAULT_MOCK_OPTIONS.failEvery,
+    failureKind: import.meta.env.VITE_MOCK_AI_FAILURE_KIND || DEFAULT_MOCK_OPTIONS.failureKind,
+  };
+};
 
 export class OpenAIService {
-  private static async makeRequest(
-    messages: OpenAIMessage[],
-    apiKey: string,
-    model: string = 'gpt-3.5-turbo'
-  ): Promise<string> {
-    if (!apiKey || !apiKey.trim()) {
-      throw new Error('OpenAI API key is required');
-    }
+  private static mockProvider: MockSuggestionProvider | null = (() => {
+    const options = mockOptionsFromEnv();
+    return options ? new MockSuggestionProvider(options) : null;
+  })();
 
-    try {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
-          model: model,
-          messages: messages,
-          temperature: 0.3,
-          max_tokens: 800, // Increased for more suggestions
-          stream: false,
-        }),
-      });
+  // Switches to the mock provider at runtime, e.g. from a test or the console.
+  // Pass null to go back to the Edge Function.
+  static useMockProvider(options: Partial<MockProviderOptions> | null) {
+    this.mockProvider = options ? new MockSuggestionProvider({ ...DEFAULT_MOCK_OPTIONS, ...options }) : null;
+  }
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(`OpenAI API error: ${response.status} ${response.statusText}. ${errorData.error?.message || ''}`);
-      }
+  static isUsingMockProvider(): boolean {
+    return this.mockProvider !== null;
+  }
 
-      const data: OpenAIResponse = await response.json();
-      
-      if (!data.choices || data.choices.length === 0) {
-        throw new Error('No response from OpenAI API');
-      }
+  // The suggest function only calls OpenAI-compatible servers when it runs with
+  // AI_ALLOW_CUSTOM_BASE_URL=true. Deployments that enable it set
+  // VITE_AI_ALLOW_CUSTOM_BASE_URL=true too, so Settings can offer the option.
+  static allowsCustomBaseUrl(): boolean {
+    return import.meta.env.VITE_AI_ALLOW_CUSTOM_BASE_URL === 'true';
+  }
+
+  // Cache entries belong to the signed-in user; without one nothing is cached
+  private static async getUserId(): Promise<string | null> {
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.user.id ?? null;
+  }
 
-      return data.choices[0].message.content;
-    } catch (error) {
-      console.error('OpenAI API request failed:', error);
-      throw error;
+  private static async getHeaders(): Promise<Record<string, string>> {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      throw new AIServiceError('You need to be signed in to get AI suggestions', { kind: 'auth' });
     }
+
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`,
+      'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+    };
   }
 
-  static async generateSuggestions({
+  // Requests go through the shared scheduler, which limits how many run at
+  // once and retries rate-limited, overloaded and dropped requests
+  static async generateSuggestions(request: SuggestionRequest): Promise<ParsedSuggestion[]> {
+    return requestScheduler.run(
+      (signal) => this.requestSuggestions({ ...request, signal }),
+      { signal: request.signal, label: 'Suggestion request' }
+    );
+  }
+
+  private static async requestSuggestions({
     content,
-    apiKey,
-    model = 'gpt-3.5-turbo',
-    suggestionType = 'general', 
-    documentContext
+    suggestionType = 'general',
+    persona,
+    documentContext,
+    documentId,
+    onSuggestion,
+    signal
   }: SuggestionRequest): Promise<ParsedSuggestion[]> {
-    const plainText = content.replace(/<[^>]*>?/gm, '');
-
-    // Allow shorter content for first-time users (minimum 15 characters)
-    if (plainText.length < 15) { 
-      return [];
+    if (this.mockProvider) {
+      return this.mockProvider.suggest({ content, suggestionType, onSuggestion, signal });
     }
 
-    if (!apiKey || !apiKey.trim()) {
-      throw new Error('OpenAI API key is required');
+    const response = await withNetworkErrors(fetch(SUGGEST_ENDPOINT, {
+      method: 'POST',
+      headers: await this.getHeaders(),
+      signal,
+      body: JSON.stringify({
+        content,
+        suggestionType,
+        persona,
+        documentContext,
+        documentId,
+        stream: !!onSuggestion,
+      }),
+    }));
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      const message = errorData.error || `Suggestion service error: ${response.status} ${response.statusText}`;
+      throw new AIServiceError(message, {
+        kind: errorData.kind || errorKindForStatus(response.status, message),
+        status: response.status,
+        retryAfterMs: errorData.retryAfterMs ?? parseRetryAfter(response.headers.get('retry-after')),
+      });
     }
 
-    // Calculate dynamic suggestion count based on content length
-    const wordCount = plainText.split(/\s+/).filter(word => word.length > 0).length;
-    const paragraphCount = plainText.split(/\n\s*\n/).filter(p => p.trim().length > 0).length;
-    
-    // More suggestions for longer content
-    let targetSuggestions = 2; // Base minimum
-    if (wordCount > 100) targetSuggestions = 3;
-    if (wordCount > 200) targetSuggestions = 4;
-    if (wordCount > 400) targetSuggestions = 5;
-    if (paragraphCount > 3) targetSuggestions = Math.min(targetSuggestions + 1, 6);
-
-    // Enhanced system prompt for better coverage
-    let systemPrompt = `You are a writing assistant. You MUST analyze the ENTIRE document from beginning to end and provide ${targetSuggestions} specific suggestions to improve different parts throughout the text.
-
-CRITICAL REQUIREMENTS:
-- READ THE COMPLETE TEXT from start to finish - do not stop at the first paragraph
-- DISTRIBUTE your suggestions across DIFFERENT paragraphs and sections
-- AVOID clustering suggestions in just the opening sentences
-- Look for improvements in the MIDDLE and END sections of the text, not just the beginning
-- Each suggestion must target a DIFFERENT sentence or phrase from various parts of the document
-- Focus on variety: grammar, clarity, word choice, flow, conciseness, transitions between paragraphs
-
-JSON FORMAT REQUIREMENTS:
-- Return ONLY a valid JSON array, nothing else
-- Use this EXACT format: [{"originalText": "exact text to improve", "suggestedText": "improved version", "explanation": "brief reason"}]
-- Do NOT include any explanatory text before or after the JSON
-- Do NOT use markdown code blocks (no \`\`\`json)
-- Do NOT add any comments or additional text
-- Start your response with [ and end with ]
-- If fewer than ${targetSuggestions} improvements are needed, return what you find
-
-REMINDER: Your goal is to help improve the ENTIRE document, not just the first few sentences.`;
-
-    // Enhanced user prompt with section awareness
-    let userPromptContent = `Please analyze this COMPLETE document from start to finish and provide ${targetSuggestions} improvements distributed across different paragraphs and sections:
-
-TEXT TO ANALYZE:
-${plainText}
-
-ANALYSIS REQUIREMENTS:
-- Read through ALL paragraphs and sections
-- Identify ${targetSuggestions} different areas for improvement
-- Choose suggestions from VARIOUS parts of the text (beginning, middle, end)
-- Do not focus only on the first paragraph or opening sentences
-
-`;
-
-    switch (suggestionType) {
-      case 'conciseness':
-        userPromptContent += `Focus on making different sections more concise. Look throughout the entire document from beginning to end.`;
-        break;
-      case 'clarity':
-        userPromptContent += `Focus on improving clarity in various parts of the text. Scan the complete document and find unclear sections throughout.`;
-        break;
-      case 'engagement':
-        userPromptContent += `Focus on making different sections more engaging. Review the entire content and enhance various paragraphs.`;
-        break;
-      case 'expand':
-        userPromptContent += `Suggest expansions of ideas from different paragraphs throughout the document.`;
-        break;
-      case 'rephrase_alternatives':
-        userPromptContent += `Offer alternative phrasings for key sentences from various parts of the text, not just the beginning.`;
-        break;
-      default: // 'general'
-        userPromptContent += `Provide ${targetSuggestions} diverse improvements (grammar, clarity, word choice, flow) from different sections throughout the document. Make sure to analyze ALL paragraphs, not just the first one.`;
-        break;
+    if (!onSuggestion) {
+      const data: { suggestions: ParsedSuggestion[] } = await response.json();
+      return data.suggestions || [];
     }
 
-    const messages: OpenAIMessage[] = [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userPromptContent }
-    ];
-
-    let responseString = '';
-    let cleanedResponse = '';
-    
-    try {
-      responseString = await this.makeRequest(messages, apiKey, model);
-      
-      console.log('🤖 OpenAI raw response:', responseString);
-      console.log(`📊 Content analysis: ${wordCount} words, ${paragraphCount} paragraphs, targeting ${targetSuggestions} suggestions`);
-      
-      // Try to clean up the response if it's not valid JSON
-      cleanedResponse = responseString.trim();
-      
-      // Remove any markdown code blocks if present
-      if (cleanedResponse.startsWith('```json')) {
-        cleanedResponse = cleanedResponse.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-      } else if (cleanedResponse.startsWith('```')) {
-        cleanedResponse = cleanedResponse.replace(/^```\s*/, '').replace(/\s*```$/, '');
-      }
-      
-      // Remove any leading/trailing text that's not part of the JSON array
-      const jsonStartIndex = cleanedResponse.indexOf('[');
-      const jsonEndIndex = cleanedResponse.lastIndexOf(']');
-      
-      if (jsonStartIndex !== -1 && jsonEndIndex !== -1 && jsonEndIndex > jsonStartIndex) {
-        cleanedResponse = cleanedResponse.substring(jsonStartIndex, jsonEndIndex + 1);
-      }
-      
-      // Log the cleaned response for debugging
-      console.log('🧹 Cleaned response:', cleanedResponse);
-      
-      const suggestions = JSON.parse(cleanedResponse);
-      
-      if (!Array.isArray(suggestions)) {
-        console.warn('OpenAI response is not an array, returning empty suggestions. Response:', cleanedResponse);
-        return [];
+    let suggestions: ParsedSuggestion[] = [];
+    await readServerSentEvents(response, (data) => {
+      const event: SuggestStreamEvent = JSON.parse(data);
+      if (event.type === 'suggestion') {
+        onSuggestion(event.suggestion);
+      } else if (event.type === 'done') {
+        suggestions = event.suggestions;
+      } else if (event.type === 'error') {
+        throw new AIServiceError(event.message, {
+          kind: event.kind || 'unknown',
+          retryAfterMs: event.retryAfterMs,
+        });
       }
+    });
+
+    return suggestions;
+  }
 
-      const validSuggestions = suggestions.filter((suggestion: any) => 
-        suggestion.originalText && 
-        suggestion.suggestedText && 
-        suggestion.explanation &&
-        (suggestionType === 'expand' || suggestion.originalText !== suggestion.suggestedText)
-      );
-
-      console.log(`✅ Generated ${validSuggestions.length} valid suggestions out of ${suggestions.length} total`);
-      
-      return validSuggestions;
-    } catch (error) {
-      console.error('Error parsing OpenAI response or generating suggestions:', error);
-      if (error instanceof SyntaxError) {
-        console.error("Failed to parse JSON response from OpenAI.");
-        console.error("Raw response:", responseString);
-        console.error("Cleaned response:", cleanedResponse);
-        
-        // Try one more time with a different approach - look for JSON-like patterns
-        try {
-          // Try to extract suggestions manually if it's a formatting issue
-          const suggestionPattern = /"originalText":\s*"([^"]*)",\s*"suggestedText":\s*"([^"]*)",\s*"explanation":\s*"([^"]*)"/g;
-          const manualSuggestions: ParsedSuggestion[] = [];
-          let match;
-          
-          while ((match = suggestionPattern.exec(responseString)) !== null) {
-            manualSuggestions.push({
-              originalText: match[1],
-              suggestedText: match[2],
-              explanation: match[3]
-            });
-          }
-          
-          if (manualSuggestions.length > 0) {
-            console.log(`🔧 Recovered ${manualSuggestions.length} suggestions using pattern matching`);
-            return manualSuggestions;
-          }
-        } catch (fallbackError) {
-          console.error('Fallback parsing also failed:', fallbackError);
+  // Splits the document into paragraph windows and analyzes them in parallel
+  // (as far as the scheduler allows), so suggestions cover the whole of a long
+  // document rather than its opening
+  static async generateDocumentSuggestions({
+    content,
+    windowTokens = DEFAULT_WINDOW_TOKENS,
+    windows = buildAnalysisWindows(content, windowTokens),
+    suggestionType = 'general',
+    persona,
+    documentContext,
+    documentId,
+    onSuggestion,
+    onWindowComplete,
+    model,
+    promptKey,
+    refresh = false,
+    signal
+  }: DocumentSuggestionRequest): Promise<DocumentSuggestion[]> {
+    const errors: unknown[] = [];
+    const results = await Promise.all(windows.map(async (analysisWindow) => {
+      try {
+        const suggestions = await this.analyzeWindow(analysisWindow, {
+          suggestionType,
+          persona,
+          // Mock results are cheap to recompute and must never be served in
+          // place of a real model's
+          model: this.mockProvider ? undefined : model,
+          promptKey,
+          refresh,
+          signal,
+          onSuggestion,
+          documentId,
+          documentContext: {
+            ...documentContext,
+            section: { index: analysisWindow.index, total: windows.length },
+          },
+        });
+        onWindowComplete?.(analysisWindow);
+        return suggestions;
+      } catch (error) {
+        if (!(error instanceof AIServiceError && error.kind === 'cancelled')) {
+          console.error(`Window ${analysisWindow.index + 1}/${windows.length} failed:`, error);
         }
-        
-        throw new Error('Failed to parse AI suggestions. The AI returned an invalid JSON format. Please try again.');
+        errors.push(error);
+        return [];
       }
-      throw new Error(`Failed to generate AI suggestions: ${error instanceof Error ? error.message : String(error)}`);
+    }));
+
+    if (signal?.aborted) {
+      throw new AIServiceError('Request was cancelled', { kind: 'cancelled' });
     }
+
+    // Partial results are still useful; only fail when nothing succeeded
+    if (windows.length > 0 && errors.length === windows.length) {
+      throw errors[0];
+    }
+
+    return results.flat();
+  }
+
+  // Serves the paragraphs of a window from the cache where possible and only
+  // sends the rest to the provider
+  private static async analyzeWindow(
+    analysisWindow: AnalysisWindow,
+    {
+      suggestionType,
+      persona,
+      model,
+      promptKey,
+      refresh,
+      signal,
+      onSuggestion,
+      documentContext,
+      documentId
+    }: Pick<DocumentSuggestionRequest, 'suggestionType' | 'persona' | 'model' | 'promptKey' | 'refresh' | 'signal' | 'onSuggestion' | 'documentContext' | 'documentId'>
+  ): Promise<DocumentSuggestion[]> {
+    const userId = model ? await this.getUserId() : null;
+    const cacheContext = [persona ? `persona=${persona}` : '', briefCacheKey(documentContext?.brief), promptKey ?? '']
+      .filter(Boolean)
+      .join('\n');
+    const cacheKeyFor = (text: string) => model && userId
+      ? SuggestionCache.key({ userId, text, model, suggestionType: suggestionType || 'general', context: cacheContext })
+      : null;
+    const cacheKeys = analysisWindow.paragraphs.map(paragraph => cacheKeyFor(paragraph.text));
+    const cached = await Promise.all(
+      cacheKeys.map(key => (key && !refresh ? SuggestionCache.get(key) : Promise.resolve(null)))
+    );
+
+    const fromCache = analysisWindow.paragraphs.flatMap((paragraph, index) =>
+      (cached[index] || []).map(suggestion =>
+        mapSuggestionToDocument(createWindow(analysisWindow.index, [paragraph]), suggestion)
+      )
+    );
+    fromCache.forEach(suggestion => onSuggestion?.(suggestion));
+
+    const uncachedParagraphs = analysisWindow.paragraphs.filter((_, index) => cached[index] === null);
+    if (uncachedParagraphs.length === 0) {
+      return fromCache;
+    }
+
+    const requestWindow = createWindow(analysisWindow.index, uncachedParagraphs);
+    const suggestions = await this.generateSuggestions({
+      content: requestWindow.text,
+      suggestionType,
+      persona,
+      documentContext,
+      documentId,
+      signal,
+      onSuggestion: onSuggestion
+        ? (suggestion) => onSuggestion(mapSuggestionToDocument(requestWindow, suggestion))
+        : undefined,
+    });
+
+    // Cache per paragraph so the entries still hit when paragraphs are regrouped
+    await Promise.all(uncachedParagraphs.map(paragraph => {
+      const key = cacheKeyFor(paragraph.text);
+      return key
+        ? SuggestionCache.set(key, suggestions.filter(suggestion => paragraph.text.includes(suggestion.originalText)))
+        : Promise.resolve();
+    }));
+
+    return [...fromCache, ...suggestions.map(suggestion => mapSuggestionToDocument(requestWindow, suggestion))];
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,172 @@
+// Standard readability formulas (Flesch reading ease, Flesch-Kincaid grade,
+// Gunning fog) for the editor's stats panel. Syllables are estimated with a
+// spelling heuristic, so scores are close to, but not exactly, what other tools
+// report.
+
+export interface ReadabilityScores {
+  words: number;
+  sentences: number;
+  syllables: number;
+  // Words of three or more syllables, for the Gunning fog index
+  complexWords: number;
+  averageSentenceLength: number;
+  fleschReadingEase: number;
+  fleschKincaidGrade: number;
+  gunningFog: number;
+}
+
+export interface ParagraphReadability extends ReadabilityScores {
+  text: string;
+  // Offsets into the document's plain text
+  start: number;
+  end: number;
+}
+
+export interface DocumentReadability extends ReadabilityScores {
+  paragraphs: ParagraphReadability[];
+  // Words per paragraph
+  averageParagraphLength: number;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export interface Sentence {
+  text: string;
+  // Offset into the text that was split
+  start: number;
+}
+
+// Sentences with their offsets. Paragraph breaks are gone from the plain text,
+// so ending punctuation and line breaks are the only boundaries.
+export const splitSentences = (text: string): Sentence[] => {
+  const sentences: Sentence[] = [];
+  for (const match of text.matchAll(/[^.!?\n]+[.!?]*/g)) {
+    const leading = match[0].length - match[0].trimStart().length;
+    const sentenceText = match[0].trim();
+    if (sentenceText) {
+      sentences.push({ text: sentenceText, start: (match.index ?? 0) + leading });
+    }
+  }
+  return sentences;
+};
+
+export const countSyllables = (word: string): number => {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!letters) {
+    return 0;
+  }
+  if (letters.length <= 3) {
+    return 1;
+  }
+
+  // Silent endings ("made", "jumped", "boxes") and a leading consonant "y"
+  const trimmed = letters
+    .replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, '')
+    .replace(/^y/, '');
+  return Math.max(1, (trimmed.match(/[aeiouy]{1,2}/g) || []).length);
+};
+
+const getWords = (text: string): string[] => text.split(/\s+/).filter(word => /[A-Za-z0-9]/.test(word));
+
+// Capitalized words are usually names, and hyphenated words are compounds of
+// simpler ones, so neither counts as complex
+const isComplexWord = (word: string) =>
+  !/^[A-Z]/.test(word) && !word.includes('-') && countSyllables(word) >= 3;
+
+const fromCounts = (words: number, sentences: number, syllables: number, complexWords: number): ReadabilityScores => {
+  if (words === 0) {
+    return {
+      words: 0,
+      sentences: 0,
+      syllables: 0,
+      complexWords: 0,
+      averageSentenceLength: 0,
+      fleschReadingEase: 0,
+      fleschKincaidGrade: 0,
+      gunningFog: 0,
+    };
+  }
+
+  const wordsPerSentence = words / sentences;
+  const syllablesPerWord = syllables / words;
+  return {
+    words,
+    sentences,
+    syllables,
+    complexWords,
+    averageSentenceLength: round(wordsPerSentence),
+    fleschReadingEase: round(206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord),
+    fleschKincaidGrade: round(0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59),
+    gunningFog: round(0.4 * (wordsPerSentence + 100 * (complexWords / words))),
+  };
+};
+
+export const scoreReadability = (text: string): ReadabilityScores => {
+  const words = getWords(text);
+  // Text without ending punctuation is still one sentence
+  const sentences = Math.max(1, text.split(/[.!?]+/).filter(sentence => /[A-Za-z0-9]/.test(sentence)).length);
+  const syllables = words.reduce((total, word) => total + countSyllables(word), 0);
+  const complexWords = words.filter(isComplexWord).length;
+  return fromCounts(words.length, sentences, syllables, complexWords);
+};
+
+// Paragraphs are scored one by one and their counts summed for the whole
+// document, because the plain text runs paragraphs together without a break
+export const scoreDocumentReadability = (paragraphs: { text: string; start: number; end: number }[]): DocumentReadability => {
+  const scored = paragraphs
+    .map(({ text, start, end }) => ({ text, start, end, ...scoreReadability(text) }))
+    .filter(paragraph => paragraph.words > 0);
+
+  const total = scored.reduce(
+    (sum, paragraph) => ({
+      words: sum.words + paragraph.words,
+      sentences: sum.sentences + paragraph.sentences,
+      syllables: sum.syllables + paragraph.syllables,
+      complexWords: sum.complexWords + paragraph.complexWords,
+    }),
+    { words: 0, sentences: 0, syllables: 0, complexWords: 0 }
+  );
+
+  return {
+    ...fromCounts(total.words, total.sentences, total.syllables, total.complexWords),
+    paragraphs: scored,
+    averageParagraphLength: scored.length > 0 ? round(total.words / scored.length) : 0,
+  };
+};
+
+export type HeatmapMode = 'length' | 'grade';
+export type SentenceDifficulty = 'hard' | 'very-hard';
+
+// Hemingway-style cut-offs: words per sentence, or Flesch-Kincaid grade
+export const HEATMAP_THRESHOLDS: Record<HeatmapMode, { hard: number; veryHard: number }> = {
+  length: { hard: 20, veryHard: 30 },
+  grade: { hard: 10, veryHard: 14 },
+};
+
+// Grade formulas swing wildly on a handful of words
+const MIN_GRADED_WORDS = 6;
+
+// null for sentences that read fine
+export const rateSentence = (text: string, mode: HeatmapMode): SentenceDifficulty | null => {
+  const scores = scoreReadability(text);
+  if (mode === 'grade' && scores.words < MIN_GRADED_WORDS) {
+    return null;
+  }
+
+  const value = mode === 'length' ? scores.words : scores.fleschKincaidGrade;
+  const thresholds = HEATMAP_THRESHOLDS[mode];
+  if (value >= thresholds.veryHard) return 'very-hard';
+  if (value >= thresholds.hard) return 'hard';
+  return null;
+};
+
+// The usual Flesch reading ease bands
+export const describeReadingEase = (score: number): string => {
+  if (score >= 90) return 'Very easy';
+  if (score >= 80) return 'Easy';
+  if (score >= 70) return 'Fairly easy';
+  if (score >= 60) return 'Plain English';
+  if (score >= 50) return 'Fairly difficult';
+  if (score >= 30) return 'Difficult';
+  return 'Very difficult';
+};
@@ -0,0 +1,131 @@
+import { AIServiceError, toAIServiceError } from '@shared/ai/errors';
+
+// Queues AI requests so only a few are in flight at once, retries the ones
+// that failed for transient reasons, and lets callers cancel requests that
+// have been superseded. When the provider rate-limits us, every queued
+// request waits out the Retry-After period, not just the one that got the 429.
+
+interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+interface ScheduleOptions {
+  signal?: AbortSignal;
+  // Used in log messages
+  label?: string;
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30 * 1000,
+};
+
+const cancelledError = () => new AIServiceError('Request was cancelled', { kind: 'cancelled' });
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelledError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export class RequestScheduler {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+  private pausedUntil = 0;
+
+  constructor(
+    private maxConcurrent: number,
+    private retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY
+  ) {}
+
+  async run<T>(task: (signal?: AbortSignal) => Promise<T>, { signal, label = 'AI request' }: ScheduleOptions = {}): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(signal);
+
+      let error: AIServiceError;
+      try {
+        await this.waitForPause(signal);
+        return await task(signal);
+      } catch (rawError) {
+        error = signal?.aborted ? cancelledError() : toAIServiceError(rawError);
+      } finally {
+        // The slot isn't held while backing off
+        this.release();
+      }
+
+      if (!error.retryable || attempt >= this.retryPolicy.maxRetries) {
+        throw error;
+      }
+
+      const delay = this.retryDelay(error, attempt);
+      if (error.kind === 'rate-limit') {
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+      }
+      console.warn(`🔁 ${label} failed (${error.kind}), retrying in ${(delay / 1000).toFixed(1)}s:`, error.message);
+      await sleep(delay, signal);
+    }
+  }
+
+  private retryDelay(error: AIServiceError, attempt: number): number {
+    if (error.retryAfterMs !== undefined) {
+      return Math.min(error.retryAfterMs, this.retryPolicy.maxDelayMs);
+    }
+    const exponential = this.retryPolicy.baseDelayMs * 2 ** attempt;
+    const jitter = Math.random() * this.retryPolicy.baseDelayMs;
+    return Math.min(exponential + jitter, this.retryPolicy.maxDelayMs);
+  }
+
+  private async waitForPause(signal?: AbortSignal) {
+    const remaining = this.pausedUntil - Date.now();
+    if (remaining > 0) {
+      await sleep(remaining, signal);
+    }
+  }
+
+  private acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(cancelledError());
+    }
+    if (this.active < this.maxConcurrent) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const grant = () => {
+        signal?.removeEventListener('abort', onAbort);
+        this.active++;
+        resolve();
+      };
+      const onAbort = () => {
+        this.waiting = this.waiting.filter(waiter => waiter !== grant);
+        reject(cancelledError());
+      };
+      this.waiting.push(grant);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private release() {
+    this.active--;
+    this.waiting.shift()?.();
+  }
+}
+
+// Shared by every request from this tab, i.e. one signed-in user
+export const requestScheduler = new RequestScheduler(3);
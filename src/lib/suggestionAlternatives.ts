@@ -0,0 +1,15 @@
+import { type Suggestion } from '@/components/SuggestionPanel';
+
+type SuggestionRewrites = Pick<Suggestion, 'suggestedText' | 'alternatives'>;
+
+// Every rewrite on offer, in rank order: suggestedText followed by the alternatives
+export const getSuggestionOptions = (suggestion: SuggestionRewrites): string[] => [
+  suggestion.suggestedText,
+  ...(suggestion.alternatives || []),
+];
+
+// Index into getSuggestionOptions, wrapping around in either direction
+export const wrapAlternativeIndex = (suggestion: SuggestionRewrites, index: number): number => {
+  const count = getSuggestionOptions(suggestion).length;
+  return ((index % count) + count) % count;
+};
@@ -0,0 +1,161 @@
+import { type ParsedSuggestion } from '@shared/ai/suggestionSchema';
+import { hashText } from '@shared/ai/chunking';
+
+// IndexedDB cache of AI suggestions per paragraph, keyed by the user plus a
+// hash of the paragraph text, the model, suggestion type, persona and document
+// brief. IndexedDB is shared by everyone who signs in on this browser, so
+// entries are only ever served to the user they were made for.
+// An empty list is cached too, so text that had nothing to improve isn't sent
+// again either.
+
+interface CacheEntry {
+  key: string;
+  suggestions: ParsedSuggestion[];
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+interface CacheKeyParts {
+  userId: string;
+  text: string;
+  model: string;
+  suggestionType: string;
+  // Anything else that shapes the prompt, such as the persona or brief
+  context?: string;
+}
+
+const DB_NAME = 'ai-suggestion-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+
+// Least recently used entries beyond MAX_ENTRIES are evicted, and so is
+// anything older than MAX_AGE_MS
+const MAX_ENTRIES = 1000;
+const MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+// Evict at most once per this many writes
+const EVICT_EVERY_WRITES = 25;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let writesSinceEviction = 0;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        store.createIndex('lastUsedAt', 'lastUsedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry, e.g. after the user leaves private browsing
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const getStore = async (mode: IDBTransactionMode) => {
+  const db = await openDatabase();
+  return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+};
+
+export const SuggestionCache = {
+  key: ({ userId, text, model, suggestionType, context }: CacheKeyParts): string => {
+    const key = `${userId}:${hashText(text)}:${model}:${suggestionType}`;
+    return context ? `${key}:${hashText(context)}` : key;
+  },
+
+  // Returns null on a miss or when the cache can't be used
+  get: async (key: string): Promise<ParsedSuggestion[] | null> => {
+    try {
+      const store = await getStore('readwrite');
+      const entry: CacheEntry | undefined = await requestToPromise(store.get(key));
+      if (!entry) {
+        return null;
+      }
+
+      if (Date.now() - entry.createdAt > MAX_AGE_MS) {
+        store.delete(key);
+        return null;
+      }
+
+      store.put({ ...entry, lastUsedAt: Date.now() });
+      return entry.suggestions;
+    } catch (error) {
+      console.warn('Suggestion cache unavailable:', error);
+      return null;
+    }
+  },
+
+  set: async (key: string, suggestions: ParsedSuggestion[]): Promise<void> => {
+    try {
+      const store = await getStore('readwrite');
+      const now = Date.now();
+      await requestToPromise(store.put({ key, suggestions, createdAt: now, lastUsedAt: now } satisfies CacheEntry));
+
+      writesSinceEviction++;
+      if (writesSinceEviction >= EVICT_EVERY_WRITES) {
+        writesSinceEviction = 0;
+        await SuggestionCache.evict();
+      }
+    } catch (error) {
+      console.warn('Failed to write suggestion cache:', error);
+    }
+  },
+
+  evict: async (): Promise<void> => {
+    try {
+      const store = await getStore('readwrite');
+      const total = await requestToPromise(store.count());
+      const cutoff = Date.now() - MAX_AGE_MS;
+      let excess = total - MAX_ENTRIES;
+
+      // Walk from least to most recently used
+      await new Promise<void>((resolve, reject) => {
+        const cursorRequest = store.index('lastUsedAt').openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) {
+            resolve();
+            return;
+          }
+
+          const entry = cursor.value as CacheEntry;
+          if (excess > 0 || entry.createdAt < cutoff) {
+            cursor.delete();
+            excess--;
+            cursor.continue();
+          } else {
+            resolve();
+          }
+        };
+        cursorRequest.onerror = () => reject(cursorRequest.error);
+      });
+    } catch (error) {
+      console.warn('Failed to evict suggestion cache:', error);
+    }
+  },
+
+  clear: async (): Promise<void> => {
+    try {
+      const store = await getStore('readwrite');
+      await requestToPromise(store.clear());
+    } catch (error) {
+      console.warn('Failed to clear suggestion cache:', error);
+    }
+  },
+};
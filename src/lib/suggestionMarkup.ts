@@ -0,0 +1,141 @@
+import { anchorQuote, resolveAnchor, type TextAnchor } from '@/lib/textAnchor';
+
+// The editor marks suggestions by wrapping their text in spans, and previews a
+// rewrite by swapping the text for a diff with accept/reject buttons. That
+// markup is only ever added through DOM ranges over text nodes, never by
+// searching the HTML, so a quote can't land inside a tag or an attribute. It is
+// stripped again before the content is saved.
+
+// Elements whose text never runs on into the next block's text
+export const TEXT_BLOCKS = 'p, div, h1, h2, h3, h4, h5, h6, li, blockquote, pre';
+
+// Added around the diff preview; none of it is document text
+const ACTIONS_SELECTOR = '.suggestion-actions';
+
+export interface TextMap {
+  // Every text node's text in document order, with a line break wherever a new
+  // block starts, so nothing can match across two paragraphs
+  text: string;
+  nodes: { node: Text; start: number }[];
+}
+
+export const mapText = (root: Node): TextMap => {
+  const nodes: TextMap['nodes'] = [];
+  let text = '';
+  let lastBlock: Element | null = null;
+  const walker = (root.ownerDocument ?? document).createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) =>
+      node.parentElement?.closest(ACTIONS_SELECTOR) ? NodeFilter.FILTER_REJECT : NodeFilter.FILTER_ACCEPT,
+  });
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text;
+    const block = node.parentElement?.closest(TEXT_BLOCKS) ?? null;
+    if (block !== lastBlock && text) {
+      text += '\n';
+    }
+    lastBlock = block;
+    nodes.push({ node, start: text.length });
+    text += node.data;
+  }
+  return { text, nodes };
+};
+
+// The DOM range covering text[start, end), or null if either end is outside it
+export const rangeForOffsets = ({ nodes }: TextMap, start: number, end: number): Range | null => {
+  const from = nodes.find(({ node, start: nodeStart }) => start >= nodeStart && start < nodeStart + node.data.length);
+  const to = nodes.find(({ node, start: nodeStart }) => end > nodeStart && end <= nodeStart + node.data.length);
+  if (!from || !to) {
+    return null;
+  }
+
+  const range = from.node.ownerDocument.createRange();
+  range.setStart(from.node, start - from.start);
+  range.setEnd(to.node, end - to.start);
+  return range;
+};
+
+// Finds an anchored passage in the DOM. The DOM's text differs slightly from
+// the plain text anchors are made on (entities, line breaks between blocks),
+// so the quote is found again here. Without an anchor the occurrence nearest
+// the start wins.
+export const findAnchoredRange = (root: Node, anchor: TextAnchor | undefined, quote: string): Range | null => {
+  const textMap = mapText(root);
+  const resolved = anchor ? resolveAnchor(textMap.text, anchor) : anchorQuote(textMap.text, quote);
+  return resolved ? rangeForOffsets(textMap, resolved.start, resolved.end) : null;
+};
+
+// Wraps each text node the range covers in its own element, so a highlight
+// never spans an element boundary. Returns the wrappers in document order.
+export const wrapRange = (range: Range, createWrapper: () => HTMLElement): HTMLElement[] => {
+  const textMap = mapText(range.commonAncestorContainer.nodeType === Node.TEXT_NODE
+    ? range.commonAncestorContainer.parentNode!
+    : range.commonAncestorContainer);
+  const covered = textMap.nodes
+    .map(({ node }) => node)
+    .filter(node => range.intersectsNode(node));
+
+  return covered.flatMap(node => {
+    let target = node;
+    const start = node === range.startContainer ? range.startOffset : 0;
+    const end = node === range.endContainer ? range.endOffset : node.data.length;
+    if (start >= end) {
+      return [];
+    }
+    if (end < target.data.length) {
+      target.splitText(end);
+    }
+    if (start > 0) {
+      target = target.splitText(start);
+    }
+
+    const wrapper = createWrapper();
+    target.parentNode!.insertBefore(wrapper, target);
+    wrapper.appendChild(target);
+    return [wrapper];
+  });
+};
+
+// Swaps the range's content for `preview`, keeping the original so
+// stripSuggestionMarkup can put it back
+export const replaceRangeWithPreview = (range: Range, preview: HTMLElement) => {
+  const holder = preview.ownerDocument.createElement('div');
+  holder.appendChild(range.extractContents());
+  preview.dataset.originalHtml = holder.innerHTML;
+  range.insertNode(preview);
+};
+
+const unwrap = (element: Element) => {
+  element.replaceWith(...Array.from(element.childNodes));
+};
+
+// The root's HTML without any suggestion markup: highlights are unwrapped,
+// diff previews give back the text they replaced and the buttons are removed
+export const stripSuggestionMarkup = (root: HTMLElement): string => {
+  const copy = root.cloneNode(true) as HTMLElement;
+  copy.querySelectorAll(ACTIONS_SELECTOR).forEach(actions => actions.remove());
+  copy.querySelectorAll<HTMLElement>('.suggestion-diff').forEach(preview => {
+    const template = copy.ownerDocument.createElement('template');
+    template.innerHTML = preview.dataset.originalHtml ?? '';
+    preview.replaceWith(template.content);
+  });
+  copy.querySelectorAll('.suggestion-highlight').forEach(unwrap);
+  copy.normalize();
+  return copy.innerHTML;
+};
+
+// Replaces the anchored passage of an HTML document, leaving the markup around
+// it alone. Returns null when the passage can't be found any more.
+export const replaceAnchoredText = (html: string, anchor: TextAnchor | undefined, quote: string, replacement: string): string | null => {
+  // An inert document, so nothing in the HTML loads or runs while it is edited
+  const root = document.implementation.createHTMLDocument('').createElement('div');
+  root.innerHTML = html;
+  const range = findAnchoredRange(root, anchor, quote);
+  if (!range) {
+    return null;
+  }
+
+  range.deleteContents();
+  range.insertNode(root.ownerDocument.createTextNode(replacement));
+  root.normalize();
+  return root.innerHTML;
+};
@@ -1,4 +1,6 @@
 import { createClient } from '@supabase/supabase-js'
+import { type DocumentBrief } from '@shared/ai/documentBrief'
+import { type EditorPersonaId } from '@shared/ai/editorPersonas'
 
 // Get Supabase URL and anon key from environment variables
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || 'your_supabase_url_here'
@@ -57,6 +59,33 @@ export interface Document {
   title: string
   content: string
   user_id: string | null
+  brief: DocumentBrief | null
+  persona: EditorPersonaId | null
+  created_at: string
+  updated_at: string
+}
+
+export type DocumentSuggestionStatus = 'open' | 'accepted' | 'rejected' | 'stale'
+
+// An AI suggestion saved with its document (see migration-add-document-suggestions.sql)
+export interface DocumentSuggestionRow {
+  id: string
+  document_id: string
+  user_id: string
+  // The id the editor gave the suggestion
+  suggestion_id: string
+  original_text: string
+  suggested_text: string
+  explanation: string
+  alternatives: string[]
+  theme: string | null
+  model: string | null
+  // The anchor's quote is original_text; see src/lib/textAnchor.ts
+  anchor_prefix: string | null
+  anchor_suffix: string | null
+  anchor_start: number | null
+  anchor_end: number | null
+  status: DocumentSuggestionStatus
   created_at: string
   updated_at: string
 }
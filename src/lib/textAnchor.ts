@@ -0,0 +1,78 @@
+// Ties a suggestion to a passage of the document's plain text, in the style of
+// W3C Web Annotation selectors: the exact quote with a little of the text on
+// either side (TextQuoteSelector), plus the offsets it was last seen at
+// (TextPositionSelector). Offsets go out of date as the writer types; the quote
+// and its context find the passage again and tell repeated phrases apart.
+
+export interface TextAnchor {
+  // The passage itself, i.e. the suggestion's originalText
+  quote: string;
+  // Up to ANCHOR_CONTEXT_LENGTH characters before and after the quote
+  prefix: string;
+  suffix: string;
+  // Where the quote was last found; breaks ties between equally good matches
+  start: number;
+  end: number;
+}
+
+export const ANCHOR_CONTEXT_LENGTH = 32;
+
+export const createAnchor = (text: string, start: number, end: number): TextAnchor => ({
+  quote: text.slice(start, end),
+  prefix: text.slice(Math.max(0, start - ANCHOR_CONTEXT_LENGTH), start),
+  suffix: text.slice(end, end + ANCHOR_CONTEXT_LENGTH),
+  start,
+  end,
+});
+
+const commonPrefixLength = (a: string, b: string) => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) {
+    length++;
+  }
+  return length;
+};
+
+const commonSuffixLength = (a: string, b: string) => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) {
+    length++;
+  }
+  return length;
+};
+
+// Finds the anchored passage in `text`, which may have been edited since the
+// anchor was made. Every exact occurrence of the quote is scored by how much of
+// the prefix and suffix still surround it, and the one closest to the last
+// known position wins a tie. Returns the anchor with fresh offsets and context,
+// or null once the quote no longer appears at all.
+export const resolveAnchor = (text: string, anchor: TextAnchor): TextAnchor | null => {
+  if (!anchor.quote) {
+    return null;
+  }
+
+  let best: { start: number; score: number; distance: number } | null = null;
+  for (let index = text.indexOf(anchor.quote); index !== -1; index = text.indexOf(anchor.quote, index + 1)) {
+    const end = index + anchor.quote.length;
+    const score = commonSuffixLength(text.slice(Math.max(0, index - anchor.prefix.length), index), anchor.prefix)
+      + commonPrefixLength(text.slice(end, end + anchor.suffix.length), anchor.suffix);
+    const distance = Math.abs(index - anchor.start);
+    if (!best || score > best.score || (score === best.score && distance < best.distance)) {
+      best = { start: index, score, distance };
+    }
+  }
+
+  return best ? createAnchor(text, best.start, best.start + anchor.quote.length) : null;
+};
+
+// Anchors a quote without context, at the occurrence nearest `near`
+export const anchorQuote = (text: string, quote: string, near = 0): TextAnchor | null =>
+  resolveAnchor(text, { quote, prefix: '', suffix: '', start: near, end: near + quote.length });
+
+// Whether two anchored passages share any text
+export const anchorsOverlap = (a: Pick<TextAnchor, 'start' | 'end'>, b: Pick<TextAnchor, 'start' | 'end'>) =>
+  a.start < b.end && b.start < a.end;
+
+// Whether two anchors point at the same place with the same context
+export const anchorsEqual = (a: TextAnchor | undefined, b: TextAnchor | undefined) =>
+  a?.quote === b?.quote && a?.start === b?.start && a?.end === b?.end && a?.prefix === b?.prefix && a?.suffix === b?.suffix;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import Editor from '@/components/Editor';
 import SuggestionPanel, { type Suggestion } from '@/components/SuggestionPanel';
@@ -7,16 +7,23 @@ import { useIsMobile } from '@/hooks/use-mobile';
 import { useDocuments } from '@/hooks/useDocuments';
 import { useAuth } from '@/contexts/AuthContext';
 import { useAISuggestions } from '@/hooks/useAISuggestions';
-import { FileText, ArrowLeft, Settings, User, LogOut, Bold, Italic, Underline, Eye, EyeOff, Share, X } from 'lucide-react';
+import { useLintSuggestions } from '@/hooks/useLintSuggestions';
+import { FileText, ArrowLeft, Settings, User, LogOut, Bold, Italic, Underline, Eye, EyeOff, Share, X, RefreshCw, Wand2, Target, UserCheck, BarChart3, Highlighter } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import {
@@ -28,6 +35,27 @@ import {
   DrawerClose,
 } from '@/components/ui/drawer';
 import LogoHeader from '@/components/ui/LogoHeader';
+import DocumentBriefDialog from '@/components/DocumentBriefDialog';
+import HumannessScore from '@/components/HumannessScore';
+import ReadabilityPanel from '@/components/ReadabilityPanel';
+import { SUGGESTION_MODES, getSuggestionModeLabel, type SuggestionMode } from '@shared/ai/suggestionModes';
+import { type SuggestionType } from '@shared/ai/suggestionEngine';
+import { type DocumentBrief } from '@shared/ai/documentBrief';
+import { type SuggestionOutcome } from '@shared/ai/feedbackProfile';
+import { type HeatmapMode } from '@/lib/readability';
+import { isLintSuggestionId } from '@/lib/lint/lintEngine';
+import { replaceAnchoredText } from '@/lib/suggestionMarkup';
+import { EDITOR_PERSONAS, getEditorPersona, isEditorPersonaId, type EditorPersonaId } from '@shared/ai/editorPersonas';
+
+// Select value for suggestions without a persona
+const ALL_ROUND_PERSONA = 'all-round';
+
+// Select value for the heatmap being off
+const HEATMAP_OFF = 'off';
+const HEATMAP_OPTIONS: { value: HeatmapMode; label: string }[] = [
+  { value: 'length', label: 'Sentence length' },
+  { value: 'grade', label: 'Grade level' },
+];
 
 const EditorPage = () => {
   const { documentId } = useParams<{ documentId: string }>();
@@ -43,6 +71,15 @@ const EditorPage = () => {
   const [selectedSuggestionPosition, setSelectedSuggestionPosition] = useState<{ top: number; element: Element } | null>(null);
   const [blueIndicatorsVisible, setBlueIndicatorsVisible] = useState(true);
   const [showingDiffFor, setShowingDiffFor] = useState<string | null>(null);
+  const [alternativeIndex, setAlternativeIndex] = useState(0);
+  const [suggestionMode, setSuggestionMode] = useState<SuggestionMode>('auto');
+  const [documentBrief, setDocumentBrief] = useState<DocumentBrief | null>(null);
+  const [documentPersona, setDocumentPersona] = useState<EditorPersonaId | null>(null);
+  const [briefDialogOpen, setBriefDialogOpen] = useState(false);
+  const [statsPanelOpen, setStatsPanelOpen] = useState(false);
+  const [heatmapMode, setHeatmapMode] = useState<HeatmapMode | null>(null);
+  // Saved suggestions of the loaded document, handed over together with its content
+  const [savedSuggestions, setSavedSuggestions] = useState<Suggestion[]>([]);
   
   const isMobile = useIsMobile();
   const { toast } = useToast();
@@ -50,22 +87,125 @@ const EditorPage = () => {
   
   const {
     currentDocument,
+    documentSuggestions,
     isLoading,
     isSaving,
     loadDocument,
     saveDocument,
+    saveDocumentSettings,
+    saveSuggestions,
+    updateSuggestionStatus,
     createDocumentWithId,
     createShareLink,
   } = useDocuments();
 
+  const currentDocumentId = currentDocument?.id;
+  const handleSuggestionsChanged = useCallback((changed: Suggestion[]) => {
+    if (currentDocumentId) {
+      saveSuggestions(currentDocumentId, changed);
+    }
+  }, [currentDocumentId, saveSuggestions]);
+
+  const handleSuggestionsStale = useCallback((suggestionIds: string[]) => {
+    if (currentDocumentId) {
+      updateSuggestionStatus(currentDocumentId, suggestionIds, 'stale');
+    }
+  }, [currentDocumentId, updateSuggestionStatus]);
+
   const {
-    suggestions,
+    suggestions: aiSuggestions,
     isGenerating,
     error: aiError,
-    removeSuggestion,
+    errorKind: aiErrorKind,
+    removeSuggestion: removeAISuggestion,
+    recordSuggestionOutcome: recordAISuggestionOutcome,
     hasApiKey,
     manuallyTriggerSuggestions,
-  } = useAISuggestions({ content, enabled: aiPanelOpen, documentTitle });
+    budgetLevel,
+    activeSuggestionType,
+    contentAnalysis,
+  } = useAISuggestions({
+    content,
+    enabled: aiPanelOpen,
+    documentTitle,
+    documentId: currentDocumentId,
+    brief: documentBrief,
+    persona: documentPersona,
+    mode: suggestionMode,
+    savedSuggestions,
+    onSuggestionsChanged: handleSuggestionsChanged,
+    onSuggestionsStale: handleSuggestionsStale,
+  });
+
+  // Offline checks don't depend on the AI panel or an AI provider
+  const {
+    suggestions: lintSuggestions,
+    dismissSuggestion: dismissLintSuggestion,
+  } = useLintSuggestions({ content, aiSuggestions });
+
+  const suggestions = useMemo(() => [...aiSuggestions, ...lintSuggestions], [aiSuggestions, lintSuggestions]);
+
+  const removeSuggestion = (suggestionId: string) => {
+    if (isLintSuggestionId(suggestionId)) {
+      dismissLintSuggestion(suggestionId);
+    } else {
+      removeAISuggestion(suggestionId);
+    }
+  };
+
+  // Offline checks aren't recorded: they are dismissed per document instead
+  const recordSuggestionOutcome = (suggestion: Suggestion, outcome: SuggestionOutcome, suggestedText?: string) => {
+    if (!isLintSuggestionId(suggestion.id)) {
+      recordAISuggestionOutcome(suggestion, outcome, suggestedText);
+    }
+  };
+
+  const personaLabel = getEditorPersona(documentPersona)?.label ?? 'All-round';
+  const heatmapLabel = HEATMAP_OPTIONS.find(option => option.value === heatmapMode)?.label ?? 'Off';
+
+  const handleHeatmapChange = (value: string) => {
+    setHeatmapMode(value === HEATMAP_OFF ? null : (value as HeatmapMode));
+  };
+
+  // Shown next to the panel title, e.g. "Line editor · Auto: Clarity"
+  const activeModeLabel = [
+    documentPersona ? personaLabel : null,
+    suggestionMode === 'auto' && activeSuggestionType
+      ? `Auto: ${getSuggestionModeLabel(activeSuggestionType)}`
+      : getSuggestionModeLabel(suggestionMode),
+  ].filter(Boolean).join(' · ');
+
+  // One-off passes of a single type, without changing the selected mode
+  const suggestionPassMenu = (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 p-0 hover:bg-gray-100"
+          title="Run a single suggestion pass"
+          disabled={isGenerating || !hasApiKey}
+        >
+          <Wand2 size={14} />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Run a single pass</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {SUGGESTION_MODES.filter(option => option.value !== 'auto').map(option => (
+          <DropdownMenuItem
+            key={option.value}
+            onClick={() => manuallyTriggerSuggestions(option.value as SuggestionType)}
+          >
+            <div>
+              <div>{option.label}</div>
+              <div className="text-xs text-gray-500">{option.description}</div>
+            </div>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
 
   // Calculate max suggestions based on document length (1 suggestion per 5 lines)
   const calculateMaxSuggestions = (textContent: string) => {
@@ -95,10 +235,10 @@ const EditorPage = () => {
     // Check if any suggestions have position data
     if (suggestions && suggestions.length > 0) {
       suggestions.forEach(s => {
-        if (!s.position) {
-          console.warn(`❌ Suggestion ID ${s.id} is missing position data.`);
+        if (!s.anchor) {
+          console.warn(`❌ Suggestion ID ${s.id} is missing an anchor.`);
         } else {
-          console.log(`✅ Suggestion ID ${s.id} has position:`, s.position);
+          console.log(`✅ Suggestion ID ${s.id} is anchored at:`, s.anchor.start);
         }
       });
     } else {
@@ -148,8 +288,16 @@ const EditorPage = () => {
       setLastSavedTitle(currentDocument.title);
       setLastSavedContent(currentDocument.content);
       setHasUnsavedChanges(false);
+      setDocumentBrief(currentDocument.brief ?? null);
+      setDocumentPersona(isEditorPersonaId(currentDocument.persona) ? currentDocument.persona : null);
+      setSavedSuggestions(documentSuggestions);
     }
-  }, [currentDocument]);
+  }, [currentDocument, documentSuggestions]);
+
+  // Each diff starts on the top-ranked rewrite
+  useEffect(() => {
+    setAlternativeIndex(0);
+  }, [showingDiffFor]);
 
   const handleSave = async () => {
     if (!documentId) return;
@@ -166,14 +314,42 @@ const EditorPage = () => {
     }
   };
 
-  const handleAcceptSuggestion = (suggestionToAccept: Suggestion) => {
+  // Saved suggestions stay closed once the writer has decided on them
+  const closeSavedSuggestion = (suggestion: Suggestion, status: 'accepted' | 'rejected' | 'stale') => {
+    if (currentDocumentId && !isLintSuggestionId(suggestion.id)) {
+      updateSuggestionStatus(currentDocumentId, [suggestion.id], status);
+    }
+  };
+
+  const handleAcceptSuggestion = (suggestionToAccept: Suggestion, suggestedText: string = suggestionToAccept.suggestedText) => {
     if (!suggestionToAccept) return;
-    let newContent = content;
-    
-    // Apply the change
-    newContent = newContent.replace(suggestionToAccept.originalText, suggestionToAccept.suggestedText);
+    // Offline checks that only flag the text have nothing to apply
+    if (suggestedText === suggestionToAccept.originalText) {
+      handleRejectSuggestion(suggestionToAccept);
+      return;
+    }
+    // Apply the change where the suggestion is anchored, using whichever
+    // rewrite the writer picked
+    const newContent = replaceAnchoredText(content, suggestionToAccept.anchor, suggestionToAccept.originalText, suggestedText);
+    if (newContent === null) {
+      closeSavedSuggestion(suggestionToAccept, 'stale');
+      removeSuggestion(suggestionToAccept.id);
+      setSelectedSuggestion(null);
+      setSelectedSuggestionPosition(null);
+      setShowingDiffFor(null);
+      toast({
+        title: "Suggestion no longer applies",
+        description: "The text it was for has changed.",
+        variant: "destructive",
+      });
+      return;
+    }
     setContent(newContent);
     
+    // Remember the decision, so the kinds of suggestions the writer wants keep coming
+    recordSuggestionOutcome(suggestionToAccept, 'accepted', suggestedText);
+    closeSavedSuggestion(suggestionToAccept, 'accepted');
+
     // Remove from the list of available suggestions
     removeSuggestion(suggestionToAccept.id); 
     setSelectedSuggestion(null); // Clear the selected suggestion
@@ -189,6 +365,10 @@ const EditorPage = () => {
   const handleRejectSuggestion = (suggestionToReject: Suggestion) => {
     if (!suggestionToReject) return;
     
+    // Remember the decision, so kinds of suggestions the writer keeps rejecting stop
+    recordSuggestionOutcome(suggestionToReject, 'rejected');
+    closeSavedSuggestion(suggestionToReject, 'rejected');
+
     // Remove from the list of available suggestions
     removeSuggestion(suggestionToReject.id);
     setSelectedSuggestion(null); // Clear the selected suggestion
@@ -269,6 +449,29 @@ const EditorPage = () => {
     await createShareLink(documentId);
   };
 
+  const handleSaveBrief = async (brief: DocumentBrief) => {
+    if (!documentId) return;
+
+    const savedDoc = await saveDocumentSettings(documentId, { brief });
+    if (savedDoc) {
+      setDocumentBrief(savedDoc.brief ?? null);
+      setBriefDialogOpen(false);
+      toast({
+        title: "Brief saved",
+        description: "Suggestions will follow the updated brief.",
+      });
+    }
+  };
+
+  // Persisted per document; the hook re-analyzes with the new persona right away
+  const handlePersonaChange = (value: string) => {
+    const persona = isEditorPersonaId(value) ? value : null;
+    setDocumentPersona(persona);
+    if (documentId) {
+      saveDocumentSettings(documentId, { persona });
+    }
+  };
+
   const getSaveStatusText = () => {
     switch (saveStatus) {
       case 'saving':
@@ -355,6 +558,7 @@ const EditorPage = () => {
                 <Underline className="h-4 w-4" />
               </Button>
             </div>
+            <HumannessScore content={content} />
             {getSaveStatusText()}
             <Button 
               variant="ghost" 
@@ -366,6 +570,50 @@ const EditorPage = () => {
             >
               <Share size={16} />
             </Button>
+            <Button 
+              variant="ghost" 
+              size="sm"
+              onClick={() => setBriefDialogOpen(true)}
+              className={`h-8 w-8 p-0 hover:bg-gray-100 ${documentBrief ? 'text-blue-600' : ''}`}
+              title={documentBrief ? "Edit writing brief" : "Add a writing brief"}
+              disabled={!documentId}
+            >
+              <Target size={16} />
+            </Button>
+            <Select value={documentPersona ?? ALL_ROUND_PERSONA} onValueChange={handlePersonaChange}>
+              <SelectTrigger className="h-8 w-[160px] text-xs border-gray-200 bg-transparent" title="Reviewer persona">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_ROUND_PERSONA} className="text-xs">All-round</SelectItem>
+                {EDITOR_PERSONAS.map(persona => (
+                  <SelectItem key={persona.id} value={persona.id} className="text-xs" title={persona.description}>
+                    {persona.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={suggestionMode} onValueChange={(value) => setSuggestionMode(value as SuggestionMode)}>
+              <SelectTrigger className="h-8 w-[140px] text-xs border-gray-200 bg-transparent" title="Suggestion mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUGGESTION_MODES.map(option => (
+                  <SelectItem key={option.value} value={option.value} className="text-xs">
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button 
+              variant="ghost" 
+              size="sm"
+              onClick={() => setStatsPanelOpen(!statsPanelOpen)}
+              className={`h-8 w-8 p-0 hover:bg-gray-100 ${statsPanelOpen ? 'text-blue-600' : ''}`}
+              title={statsPanelOpen ? "Hide readability stats" : "Show readability stats"}
+            >
+              <BarChart3 size={16} />
+            </Button>
             <Button 
               variant="ghost" 
               size="sm"
@@ -382,13 +630,27 @@ const EditorPage = () => {
               {aiPanelOpen ? <EyeOff size={16} /> : <Eye size={16} />}
             </Button>
             
-            {/* Blue Indicator Toggle */}
+            {/* Blue Indicator Toggle and Sentence Heatmap */}
             <div className="flex items-center gap-2 border-l border-gray-200 pl-2 ml-2">
               <Switch
                 checked={blueIndicatorsVisible}
                 onCheckedChange={setBlueIndicatorsVisible}
                 className="data-[state=checked]:bg-blue-500 scale-75"
               />
+              <Select value={heatmapMode ?? HEATMAP_OFF} onValueChange={handleHeatmapChange}>
+                <SelectTrigger className={`h-8 w-[150px] text-xs border-gray-200 bg-transparent ${heatmapMode ? 'text-blue-600' : ''}`} title="Sentence heatmap">
+                  <Highlighter className="h-3.5 w-3.5 shrink-0" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={HEATMAP_OFF} className="text-xs">Heatmap off</SelectItem>
+                  {HEATMAP_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value} className="text-xs">
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
             {/* Simplified User Menu */}
             {user && (
@@ -482,6 +744,61 @@ const EditorPage = () => {
                     <Eye className="mr-2 h-4 w-4" />
                     {blueIndicatorsVisible ? 'Hide' : 'Show'} Indicators
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setStatsPanelOpen(true)}>
+                    <BarChart3 className="mr-2 h-4 w-4" />
+                    Readability
+                  </DropdownMenuItem>
+                  <DropdownMenuSub>
+                    <DropdownMenuSubTrigger>
+                      <Highlighter className="mr-2 h-4 w-4" />
+                      Heatmap: {heatmapLabel}
+                    </DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent>
+                      <DropdownMenuRadioGroup value={heatmapMode ?? HEATMAP_OFF} onValueChange={handleHeatmapChange}>
+                        <DropdownMenuRadioItem value={HEATMAP_OFF}>Off</DropdownMenuRadioItem>
+                        {HEATMAP_OPTIONS.map(option => (
+                          <DropdownMenuRadioItem key={option.value} value={option.value}>
+                            {option.label}
+                          </DropdownMenuRadioItem>
+                        ))}
+                      </DropdownMenuRadioGroup>
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
+                  <DropdownMenuItem onClick={() => setBriefDialogOpen(true)} disabled={!documentId}>
+                    <Target className="mr-2 h-4 w-4" />
+                    Writing Brief
+                  </DropdownMenuItem>
+                  <DropdownMenuSub>
+                    <DropdownMenuSubTrigger>
+                      <UserCheck className="mr-2 h-4 w-4" />
+                      Editor: {personaLabel}
+                    </DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent>
+                      <DropdownMenuRadioGroup value={documentPersona ?? ALL_ROUND_PERSONA} onValueChange={handlePersonaChange}>
+                        <DropdownMenuRadioItem value={ALL_ROUND_PERSONA}>All-round</DropdownMenuRadioItem>
+                        {EDITOR_PERSONAS.map(persona => (
+                          <DropdownMenuRadioItem key={persona.id} value={persona.id}>
+                            {persona.label}
+                          </DropdownMenuRadioItem>
+                        ))}
+                      </DropdownMenuRadioGroup>
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
+                  <DropdownMenuSub>
+                    <DropdownMenuSubTrigger>
+                      <Wand2 className="mr-2 h-4 w-4" />
+                      Mode: {getSuggestionModeLabel(suggestionMode)}
+                    </DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent>
+                      <DropdownMenuRadioGroup value={suggestionMode} onValueChange={(value) => setSuggestionMode(value as SuggestionMode)}>
+                        {SUGGESTION_MODES.map(option => (
+                          <DropdownMenuRadioItem key={option.value} value={option.value}>
+                            {option.label}
+                          </DropdownMenuRadioItem>
+                        ))}
+                      </DropdownMenuRadioGroup>
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
                   <DropdownMenuSeparator />
                   <DropdownMenuItem onClick={() => navigate('/settings')}>
                     <Settings className="mr-2 h-4 w-4" />
@@ -508,20 +825,74 @@ const EditorPage = () => {
             onSuggestionIndicatorClick={handleSuggestionIndicatorClick} // Pass handler for dot clicks
             blueIndicatorsVisible={blueIndicatorsVisible}
             showingDiffFor={showingDiffFor}
+            activeAlternativeIndex={alternativeIndex}
+            onAlternativeChange={setAlternativeIndex}
             onAcceptSuggestion={handleAcceptSuggestion}
             onRejectSuggestion={handleRejectSuggestion}
+            heatmapMode={heatmapMode}
           />
         </div>
         
+        {/* Readability Stats - Desktop: Side panel, Mobile: Bottom drawer */}
+        {statsPanelOpen && !isMobile && (
+          <aside className="w-72 bg-light-gray border-l border-border overflow-y-auto">
+            <div className="sticky top-0 bg-light-gray p-3 sm:p-4 border-b border-border flex items-center">
+              <h2 className="font-medium text-dark-gray text-sm sm:text-base">Readability</h2>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setStatsPanelOpen(false)}
+                className="ml-auto h-7 w-7 p-0 hover:bg-gray-100"
+                title="Hide readability stats"
+              >
+                <X size={14} />
+              </Button>
+            </div>
+            <ReadabilityPanel
+              readability={contentAnalysis.readability}
+              estimatedReadingTime={contentAnalysis.estimatedReadingTime}
+            />
+          </aside>
+        )}
+
+        {isMobile && (
+          <Drawer open={statsPanelOpen} onOpenChange={setStatsPanelOpen}>
+            <DrawerContent className="max-h-[80vh]">
+              <DrawerHeader className="border-b border-border p-3 sm:p-4">
+                <DrawerTitle className="text-sm sm:text-base font-medium">Readability</DrawerTitle>
+              </DrawerHeader>
+              <div className="flex-1 overflow-y-auto">
+                <ReadabilityPanel
+                  readability={contentAnalysis.readability}
+                  estimatedReadingTime={contentAnalysis.estimatedReadingTime}
+                />
+              </div>
+            </DrawerContent>
+          </Drawer>
+        )}
+
         {/* AI Suggestions Panel - Desktop: Side panel, Mobile: Bottom drawer */}
         {aiPanelOpen && !isMobile && (
           <aside className="w-80 lg:w-96 bg-light-gray border-l border-border overflow-y-auto">
             <div className="sticky top-0 bg-light-gray p-3 sm:p-4 border-b border-border">
               <div className="flex items-center gap-2">
                 <h2 className="font-medium text-dark-gray text-sm sm:text-base">Edits suggested</h2>
+                <span className="text-xs text-gray-500" title="Suggestion mode">{activeModeLabel}</span>
                 {isGenerating && (
                   <div className="w-3 h-3 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" title="Generating AI suggestions..."></div>
                 )}
+                <div className="ml-auto" />
+                {suggestionPassMenu}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => manuallyTriggerSuggestions()}
+                  className="h-7 w-7 p-0 hover:bg-gray-100"
+                  title="Refresh suggestions (ignores cached results)"
+                  disabled={isGenerating || !hasApiKey}
+                >
+                  <RefreshCw size={14} />
+                </Button>
               </div>
             </div>
             <SuggestionPanel 
@@ -530,6 +901,10 @@ const EditorPage = () => {
               hasApiKey={hasApiKey}
               suggestions={suggestions}
               error={aiError}
+              errorKind={aiErrorKind}
+              budgetLevel={budgetLevel}
+              alternativeIndex={alternativeIndex}
+              onAlternativeChange={setAlternativeIndex}
               suggestionPosition={selectedSuggestionPosition}
             />
           </aside>
@@ -543,15 +918,29 @@ const EditorPage = () => {
                 <div className="flex items-center justify-between w-full">
                   <div className="flex items-center gap-2">
                     <DrawerTitle className="text-sm sm:text-base font-medium">Edits suggested</DrawerTitle>
+                    <span className="text-xs text-gray-500">{activeModeLabel}</span>
                     {isGenerating && (
                       <div className="w-3 h-3 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" title="Generating AI suggestions..."></div>
                     )}
                   </div>
-                  <DrawerClose asChild>
-                    <Button variant="ghost" size="icon" className="h-8 w-8 rounded-full">
-                      <X size={18} />
+                  <div className="flex items-center gap-1">
+                    {suggestionPassMenu}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => manuallyTriggerSuggestions()}
+                      className="h-8 w-8 rounded-full"
+                      title="Refresh suggestions (ignores cached results)"
+                      disabled={isGenerating || !hasApiKey}
+                    >
+                      <RefreshCw size={16} />
                     </Button>
-                  </DrawerClose>
+                    <DrawerClose asChild>
+                      <Button variant="ghost" size="icon" className="h-8 w-8 rounded-full">
+                        <X size={18} />
+                      </Button>
+                    </DrawerClose>
+                  </div>
                 </div>
               </DrawerHeader>
               <div className="flex-1 overflow-y-auto p-3 sm:p-4">
@@ -561,6 +950,10 @@ const EditorPage = () => {
                   hasApiKey={hasApiKey}
                   suggestions={suggestions}
                   error={aiError}
+                  errorKind={aiErrorKind}
+                  budgetLevel={budgetLevel}
+                  alternativeIndex={alternativeIndex}
+                  onAlternativeChange={setAlternativeIndex}
                   suggestionPosition={selectedSuggestionPosition}
                 />
               </div>
@@ -568,6 +961,14 @@ const EditorPage = () => {
           </Drawer>
         )}
       </div>
+
+      <DocumentBriefDialog
+        open={briefDialogOpen}
+        onOpenChange={setBriefDialogOpen}
+        brief={documentBrief}
+        onSave={handleSaveBrief}
+        isSaving={isSaving}
+      />
     </div>
   );
 };
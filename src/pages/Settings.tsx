@@ -1,36 +1,100 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, Key, Settings as SettingsIcon, Eye, EyeOff, FileText } from 'lucide-react';
+import { ArrowLeft, Key, Settings as SettingsIcon, Eye, EyeOff, FileText, Wallet } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
-import { useUserSettings } from '@/hooks/useUserSettings';
+import { Progress } from '@/components/ui/progress';
+import { useUserSettings, hasApiKeyFor } from '@/hooks/useUserSettings';
+import { useMonthlyBudget } from '@/hooks/useMonthlyBudget';
+import { BUDGET_THRESHOLDS } from '@shared/ai/budget';
+import { AI_PROVIDERS, getProvider, type AIProviderId } from '@shared/ai/providers';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
+import { OpenAIService } from '@/lib/openai';
 import LogoHeader from '@/components/ui/LogoHeader';
+import UsageDashboard from '@/components/UsageDashboard';
+import PromptTemplateEditor from '@/components/PromptTemplateEditor';
+import BannedPhrasesEditor from '@/components/BannedPhrasesEditor';
 
 const Settings = () => {
   const navigate = useNavigate();
-  const { settings, isLoading, isSaving, updateSetting, updateApiKey } = useUserSettings();
+  const { settings, isLoading, isSaving, saveSettings, updateSetting, updateApiKey } = useUserSettings();
   const { toast } = useToast();
   const { user } = useAuth();
   const [showApiKey, setShowApiKey] = useState(false);
   const [apiKeyValue, setApiKeyValue] = useState('');
+  const [baseUrlValue, setBaseUrlValue] = useState<string | null>(null);
+  const [customModelValue, setCustomModelValue] = useState<string | null>(null);
+  const [budgetValue, setBudgetValue] = useState<string | null>(null);
+
+  const provider = getProvider(settings.ai_provider);
+  // Keys are stored per provider, so this is the key for the selected one only
+  const hasApiKey = hasApiKeyFor(settings, provider.id);
+  const monthlyBudget = useMonthlyBudget(settings.monthly_budget_usd);
+  const customBaseUrlAllowed = OpenAIService.allowsCustomBaseUrl();
+
+  const handleProviderChange = async (providerId: string) => {
+    const nextProvider = getProvider(providerId);
+    // Switch to the new provider's default model so we never send e.g. a GPT model name to Anthropic
+    await saveSettings({
+      ai_provider: nextProvider.id as AIProviderId,
+      ai_model: nextProvider.defaultModel,
+    });
+    setBaseUrlValue(null);
+    setCustomModelValue(null);
+  };
 
   const handleModelChange = async (model: string) => {
     await updateSetting('ai_model', model);
   };
 
+  const handleCustomModelUpdate = async () => {
+    if (customModelValue !== null && customModelValue.trim()) {
+      const success = await updateSetting('ai_model', customModelValue.trim());
+      if (success) {
+        setCustomModelValue(null);
+      }
+    }
+  };
+
+  const handleBaseUrlUpdate = async () => {
+    if (baseUrlValue === null) return;
+    const success = await updateSetting('ai_base_url', baseUrlValue.trim() || null);
+    if (success) {
+      setBaseUrlValue(null);
+    }
+  };
+
+  // An empty value removes the cap
+  const handleBudgetUpdate = async () => {
+    if (budgetValue === null) return;
+    const amount = budgetValue.trim() ? Number(budgetValue) : null;
+    if (amount !== null && (!Number.isFinite(amount) || amount < 0)) {
+      toast({
+        title: "Invalid budget",
+        description: "Enter an amount in dollars, or leave it empty for no limit.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const success = await updateSetting('monthly_budget_usd', amount);
+    if (success) {
+      setBudgetValue(null);
+    }
+  };
+
   const handleApiKeyUpdate = async () => {
     if (apiKeyValue.trim()) {
-      const success = await updateApiKey(apiKeyValue.trim());
+      const success = await updateApiKey(provider.id, apiKeyValue.trim());
       if (success) {
         toast({
           title: "API Key Updated",
-          description: "Your OpenAI API key has been updated successfully.",
+          description: `Your ${provider.label} API key has been updated successfully.`,
         });
         setApiKeyValue('');
       }
@@ -38,7 +102,7 @@ const Settings = () => {
   };
 
   const getMaskedApiKey = () => {
-    return settings.has_openai_api_key ? '••••••••••••••••••••••••••••••••••••••••••••••••••••' : '';
+    return hasApiKey ? '••••••••••••••••••••••••••••••••••••••••••••••••••••' : '';
   };
 
   if (isLoading) {
@@ -72,23 +136,83 @@ const Settings = () => {
           <CardHeader className="pb-6">
             <CardTitle className="flex items-center gap-3 text-lg">
               <Key className="h-5 w-5" />
-              OpenAI API Configuration
+              AI Provider Configuration
             </CardTitle>
             <CardDescription className="text-sm leading-relaxed">
-              Configure your OpenAI API settings. Your API key is stored securely and encrypted on our servers.
+              Choose which AI provider generates your suggestions. Your API key is stored encrypted, only used by our server to call the provider and is never sent back to your browser.
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-8">
+            {/* Provider Selection */}
+            <div className="space-y-3">
+              <Label htmlFor="provider" className="text-sm font-medium">Provider</Label>
+              <Select
+                value={provider.id}
+                onValueChange={handleProviderChange}
+              >
+                <SelectTrigger id="provider" className="h-11">
+                  <SelectValue placeholder="Select a provider" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(AI_PROVIDERS).map(option => (
+                    <SelectItem
+                      key={option.id}
+                      value={option.id}
+                      disabled={option.id === 'openai-compatible' && !customBaseUrlAllowed}
+                    >
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {provider.id === 'openai-compatible' && (
+                <div className="space-y-3 pt-2">
+                  <Label htmlFor="base-url" className="text-sm font-medium">Base URL</Label>
+                  <div className="flex gap-3">
+                    <Input
+                      id="base-url"
+                      type="url"
+                      placeholder={provider.defaultBaseUrl}
+                      value={baseUrlValue ?? settings.ai_base_url ?? ''}
+                      onChange={(e) => setBaseUrlValue(e.target.value)}
+                      disabled={!customBaseUrlAllowed}
+                      className="h-11 flex-1"
+                    />
+                    <Button
+                      onClick={handleBaseUrlUpdate}
+                      disabled={baseUrlValue === null || isSaving || !customBaseUrlAllowed}
+                      className="h-11 px-6"
+                    >
+                      Save
+                    </Button>
+                  </div>
+                  {customBaseUrlAllowed ? (
+                    <p className="text-xs text-gray-600">
+                      Any server that implements the OpenAI chat completions API, such as Ollama or llama.cpp. This URL is called by the suggest function, not by your browser, so <code>localhost</code> means the machine the function runs on. Drafts only stay on your computer if the suggest function runs there too (<code>supabase functions serve</code>); with a hosted function they are sent to that server first. Changing the URL removes the API key saved for the previous server.
+                    </p>
+                  ) : (
+                    <p className="text-xs text-amber-600">
+                      Custom servers are disabled on this deployment, so suggestions won't work with this provider. Choose another provider, or run the suggest function with <code>AI_ALLOW_CUSTOM_BASE_URL=true</code>.
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <Separator />
+
             {/* API Key Section */}
             <div className="space-y-3">
-              <Label htmlFor="api-key" className="text-sm font-medium">OpenAI API Key</Label>
+              <Label htmlFor="api-key" className="text-sm font-medium">
+                {provider.label} API Key{!provider.requiresApiKey && ' (optional)'}
+              </Label>
               <div className="flex gap-3">
                 <div className="relative flex-1">
                   <Input
                     id="api-key"
                     type={showApiKey ? "text" : "password"}
-                    placeholder={settings.has_openai_api_key ? "API key configured" : "Enter your OpenAI API key"}
-                    value={showApiKey && settings.has_openai_api_key ? getMaskedApiKey() : apiKeyValue}
+                    placeholder={hasApiKey ? "API key configured" : `Enter your ${provider.label} API key`}
+                    value={showApiKey && hasApiKey ? getMaskedApiKey() : apiKeyValue}
                     onChange={(e) => setApiKeyValue(e.target.value)}
                     className="pr-12 h-11"
                   />
@@ -111,20 +235,25 @@ const Settings = () => {
                   disabled={!apiKeyValue.trim() || isSaving}
                   className="h-11 px-6"
                 >
-                  {settings.has_openai_api_key ? 'Update' : 'Add'}
+                  {hasApiKey ? 'Update' : 'Add'}
                 </Button>
               </div>
               <div className="flex items-center gap-2 mt-2">
-                {settings.has_openai_api_key ? (
+                {hasApiKey ? (
                   <span className="text-xs text-green-600 flex items-center gap-1">
                     <div className="w-1.5 h-1.5 bg-green-500 rounded-full"></div>
-                    API key is configured and ready to use
+                    {provider.label} API key is configured and ready to use
                   </span>
-                ) : (
+                ) : provider.requiresApiKey ? (
                   <span className="text-xs text-amber-600 flex items-center gap-1">
                     <div className="w-1.5 h-1.5 bg-amber-500 rounded-full"></div>
                     No API key configured. Add one to enable AI suggestions.
                   </span>
+                ) : (
+                  <span className="text-xs text-green-600 flex items-center gap-1">
+                    <div className="w-1.5 h-1.5 bg-green-500 rounded-full"></div>
+                    No API key needed unless your server requires one
+                  </span>
                 )}
               </div>
             </div>
@@ -135,18 +264,38 @@ const Settings = () => {
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
               <div className="space-y-3">
                 <Label htmlFor="model" className="text-sm font-medium">AI Model</Label>
-                <Select
-                  value={settings.ai_model}
-                  onValueChange={handleModelChange}
-                >
-                  <SelectTrigger className="h-11">
-                    <SelectValue placeholder="Select a model" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="gpt-3.5-turbo">gpt-3.5-turbo</SelectItem>
-                    <SelectItem value="gpt-4">gpt-4</SelectItem>
-                  </SelectContent>
-                </Select>
+                {provider.models.length > 0 ? (
+                  <Select
+                    value={settings.ai_model}
+                    onValueChange={handleModelChange}
+                  >
+                    <SelectTrigger id="model" className="h-11">
+                      <SelectValue placeholder="Select a model" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {provider.models.map(model => (
+                        <SelectItem key={model} value={model}>{model}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <div className="flex gap-2">
+                    <Input
+                      id="model"
+                      placeholder={provider.defaultModel}
+                      value={customModelValue ?? settings.ai_model}
+                      onChange={(e) => setCustomModelValue(e.target.value)}
+                      className="h-11 flex-1"
+                    />
+                    <Button
+                      onClick={handleCustomModelUpdate}
+                      disabled={customModelValue === null || !customModelValue.trim() || isSaving}
+                      className="h-11"
+                    >
+                      Save
+                    </Button>
+                  </div>
+                )}
               </div>
 
               <div className="space-y-3">
@@ -178,6 +327,81 @@ const Settings = () => {
             </div>
           </CardContent>
         </Card>
+
+        {/* Monthly Budget */}
+        <Card className="shadow-sm mt-8">
+          <CardHeader className="pb-6">
+            <CardTitle className="flex items-center gap-3 text-lg">
+              <Wallet className="h-5 w-5" />
+              Monthly Budget
+            </CardTitle>
+            <CardDescription className="text-sm leading-relaxed">
+              Cap what AI suggestions can cost each month. At {BUDGET_THRESHOLDS.manualOnly * 100}% suggestions only refresh when you ask, at {BUDGET_THRESHOLDS.economy * 100}% they switch to a cheaper model, and at the limit they stop until the next month.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="space-y-3">
+              <Label htmlFor="budget" className="text-sm font-medium">Budget (USD per month)</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="budget"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="No limit"
+                  value={budgetValue ?? (settings.monthly_budget_usd ?? '').toString()}
+                  onChange={(e) => setBudgetValue(e.target.value)}
+                  className="h-11 flex-1"
+                />
+                <Button
+                  onClick={handleBudgetUpdate}
+                  disabled={budgetValue === null || isSaving}
+                  className="h-11"
+                >
+                  Save
+                </Button>
+              </div>
+              <p className="text-xs text-gray-600">
+                Leave empty for no limit. Costs are estimated from the provider's list prices and may differ from your bill.
+              </p>
+            </div>
+
+            {monthlyBudget.budget !== null && (
+              <div className="space-y-2">
+                <div className="flex justify-between text-xs text-gray-700">
+                  <span>Spent this month</span>
+                  <span>${monthlyBudget.spent.toFixed(2)} of ${monthlyBudget.budget.toFixed(2)}</span>
+                </div>
+                <Progress value={monthlyBudget.budget > 0 ? Math.min(100, (monthlyBudget.spent / monthlyBudget.budget) * 100) : 100} />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Prompt Templates */}
+        <div className="mt-8">
+          <PromptTemplateEditor
+            templates={settings.prompt_templates}
+            activeTemplateId={settings.active_prompt_template_id}
+            styleRules={settings.style_rules}
+            onSave={saveSettings}
+            isSaving={isSaving}
+          />
+        </div>
+
+        {/* Banned Phrases */}
+        <div className="mt-8">
+          <BannedPhrasesEditor
+            phrases={settings.banned_phrases}
+            onSave={saveSettings}
+            isSaving={isSaving}
+          />
+        </div>
+
+        {/* Token Usage */}
+        <div className="mt-8">
+          <UsageDashboard />
+        </div>
       </main>
     </div>
   );
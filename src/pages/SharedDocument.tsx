@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import Editor from '@/components/Editor';
+import HumannessScore from '@/components/HumannessScore';
 import { useToast } from '@/hooks/use-toast';
 import { useDocuments } from '@/hooks/useDocuments';
 import { FileText } from 'lucide-react';
@@ -100,6 +101,9 @@ const SharedDocumentPage = () => {
         
         {/* Subtle footnote */}
         <div className="mt-4 pt-6 sm:pt-8 border-t border-gray-100">
+          <div className="flex justify-center mb-2">
+            <HumannessScore content={content} />
+          </div>
           <p className="text-xs text-gray-400 text-center">
             This essay is 100% written by a human on{' '}
             <a 
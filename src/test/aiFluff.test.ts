@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { MIN_SCORED_WORDS, findAIFluff, scoreHumanness } from '@/lib/lint/aiFluff';
+
+const findings = (text: string) =>
+  findAIFluff(text).map(finding => ({
+    kind: finding.kind,
+    text: text.slice(finding.start, finding.end),
+    suggestedText: finding.suggestedText,
+  }));
+
+describe('findAIFluff', () => {
+  it('prefers the longest stock phrase and keeps the case of the original', () => {
+    expect(findings('Delve into the data.')).toEqual([
+      { kind: 'phrase', text: 'Delve into', suggestedText: 'Explore' },
+    ]);
+  });
+
+  it('flags stock phrases without a replacement', () => {
+    expect(findings('A rich tapestry of ideas.')).toEqual([
+      { kind: 'phrase', text: 'rich tapestry', suggestedText: undefined },
+    ]);
+  });
+
+  it('matches curly apostrophes', () => {
+    expect(findings('It’s important to note that we ship.')).toHaveLength(1);
+  });
+
+  it('only flags "leverage" as a verb', () => {
+    expect(findings('We leverage our data.')).toEqual([
+      { kind: 'phrase', text: 'leverage', suggestedText: 'use' },
+    ]);
+    expect(findings('Leveraging the team helps.')[0]).toMatchObject({ text: 'Leveraging', suggestedText: 'Using' });
+    expect(findings('We have leverage over them.')).toEqual([]);
+    expect(findings('A leveraged buyout.')).toEqual([]);
+  });
+
+  it('flags an em dash leading into a list of three', () => {
+    expect(findings('It has it all — speed, power, and grace.')).toEqual([
+      { kind: 'em-dash-triad', text: '— speed, power, and grace', suggestedText: undefined },
+    ]);
+  });
+
+  it('flags stacked hedges', () => {
+    expect(findings('This could potentially help.')).toEqual([
+      { kind: 'hedging-stack', text: 'could potentially', suggestedText: undefined },
+    ]);
+  });
+
+  it('finds nothing in plain writing', () => {
+    expect(findAIFluff('We shipped the fix on Tuesday and the errors stopped.')).toEqual([]);
+  });
+});
+
+describe('scoreHumanness', () => {
+  const words = (count: number) => Array.from({ length: count }, () => 'word').join(' ');
+
+  it('does not score short text', () => {
+    expect(scoreHumanness(words(MIN_SCORED_WORDS - 1)).score).toBeNull();
+  });
+
+  it('gives plain text full marks', () => {
+    expect(scoreHumanness(words(50))).toMatchObject({ score: 100, label: 'Reads human', findings: 0 });
+  });
+
+  it('drops as findings pile up relative to the length', () => {
+    const one = scoreHumanness(`${words(50)} delve`);
+    const three = scoreHumanness(`${words(50)} delve, tapestry, seamlessly`);
+
+    expect(one.score).toBeLessThan(100);
+    expect(three.score).toBeLessThan(one.score!);
+  });
+});
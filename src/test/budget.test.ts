@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { budgetLevelFor, budgetPeriodStart } from '@shared/ai/budget';
+
+describe('budgetLevelFor', () => {
+  it('has no cap without a budget', () => {
+    expect(budgetLevelFor(1000, null)).toBe('normal');
+    expect(budgetLevelFor(1000, undefined)).toBe('normal');
+  });
+
+  it('turns suggestions off with a budget of 0', () => {
+    expect(budgetLevelFor(0, 0)).toBe('off');
+  });
+
+  it('degrades step by step as spending approaches the budget', () => {
+    expect(budgetLevelFor(7.49, 10)).toBe('normal');
+    expect(budgetLevelFor(7.5, 10)).toBe('manual-only');
+    expect(budgetLevelFor(9, 10)).toBe('economy');
+    expect(budgetLevelFor(10, 10)).toBe('off');
+    expect(budgetLevelFor(12, 10)).toBe('off');
+  });
+});
+
+describe('budgetPeriodStart', () => {
+  it('is the first of the month in UTC', () => {
+    expect(budgetPeriodStart(new Date('2026-03-15T12:00:00Z'))).toBe('2026-03-01');
+    expect(budgetPeriodStart(new Date('2026-12-31T23:59:59Z'))).toBe('2026-12-01');
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildAnalysisWindows,
+  estimateTokens,
+  hashText,
+  mapSuggestionToDocument,
+  splitIntoParagraphs,
+  toPlainText,
+} from '@shared/ai/chunking';
+
+describe('splitIntoParagraphs', () => {
+  it('finds each block at its offset in the plain text', () => {
+    const content = '<p>First paragraph.</p><p>Second one.</p>';
+    const plainText = toPlainText(content);
+
+    const paragraphs = splitIntoParagraphs(content);
+
+    expect(paragraphs.map(paragraph => paragraph.text)).toEqual(['First paragraph.', 'Second one.']);
+    paragraphs.forEach(paragraph => {
+      expect(plainText.slice(paragraph.start, paragraph.end)).toBe(paragraph.text);
+    });
+  });
+
+  it('tells repeated paragraphs apart by position, not by hash', () => {
+    const paragraphs = splitIntoParagraphs('<p>Same text.</p><p>Same text.</p>');
+
+    expect(paragraphs).toHaveLength(2);
+    expect(paragraphs[0].hash).toBe(paragraphs[1].hash);
+    expect(paragraphs[1].start).toBeGreaterThan(paragraphs[0].start);
+  });
+
+  it('skips empty blocks and line breaks', () => {
+    const paragraphs = splitIntoParagraphs('<p>One</p><p><br></p><div>Two</div>');
+
+    expect(paragraphs.map(paragraph => paragraph.text)).toEqual(['One', 'Two']);
+  });
+});
+
+describe('buildAnalysisWindows', () => {
+  const paragraph = (words: number) => `<p>${Array.from({ length: words }, (_, index) => `word${index}`).join(' ')}.</p>`;
+
+  it('keeps a short document in one window', () => {
+    const windows = buildAnalysisWindows('<p>Short.</p><p>Also short.</p>');
+
+    expect(windows).toHaveLength(1);
+    expect(windows[0].text).toBe('Short.\n\nAlso short.');
+  });
+
+  it('starts a new window once the token budget is reached', () => {
+    const content = [paragraph(40), paragraph(40), paragraph(40)].join('');
+
+    const windows = buildAnalysisWindows(content, 150);
+
+    expect(windows.length).toBeGreaterThan(1);
+    windows.forEach((analysisWindow, index) => {
+      expect(analysisWindow.index).toBe(index);
+    });
+    expect(windows.flatMap(analysisWindow => analysisWindow.paragraphs)).toHaveLength(3);
+  });
+
+  it('breaks an oversized paragraph at sentence boundaries', () => {
+    const sentences = Array.from({ length: 20 }, (_, index) => `Sentence number ${index} is here.`).join(' ');
+
+    const windows = buildAnalysisWindows(`<p>${sentences}</p>`, 30);
+    const pieces = windows.flatMap(analysisWindow => analysisWindow.paragraphs);
+
+    expect(pieces.length).toBeGreaterThan(1);
+    pieces.forEach(piece => {
+      expect(piece.text).toMatch(/\.$/);
+      expect(estimateTokens(piece.text)).toBeLessThanOrEqual(30);
+      expect(piece.hash).toBe(hashText(sentences));
+    });
+  });
+
+  it('only includes the paragraphs the filter accepts', () => {
+    const content = '<p>Keep me.</p><p>Skip me.</p><p>Keep me too.</p>';
+
+    const windows = buildAnalysisWindows(content, 1200, paragraph => paragraph.text.startsWith('Keep'));
+
+    expect(windows.flatMap(analysisWindow => analysisWindow.paragraphs.map(paragraph => paragraph.text)))
+      .toEqual(['Keep me.', 'Keep me too.']);
+  });
+});
+
+describe('mapSuggestionToDocument', () => {
+  it('maps a suggestion back to document offsets through its paragraph', () => {
+    const content = '<p>Intro text.</p><p>The cat sat down.</p>';
+    const [analysisWindow] = buildAnalysisWindows(content);
+
+    const mapped = mapSuggestionToDocument(analysisWindow, {
+      originalText: 'cat sat',
+      suggestedText: 'cat was sitting',
+      explanation: 'Tense.',
+    });
+
+    expect(mapped.position).toBeDefined();
+    expect(toPlainText(content).slice(mapped.position!.start, mapped.position!.end)).toBe('cat sat');
+  });
+
+  it('leaves the position unset for text that spans paragraphs', () => {
+    const [analysisWindow] = buildAnalysisWindows('<p>End of one.</p><p>Start of two.</p>');
+
+    const mapped = mapSuggestionToDocument(analysisWindow, {
+      originalText: 'one.\n\nStart',
+      suggestedText: 'one. Start',
+      explanation: 'Join.',
+    });
+
+    expect(mapped.position).toBeUndefined();
+    expect(mapped.windowIndex).toBe(0);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from 'vitest';
+import { JsonArrayStreamParser } from '@shared/ai/jsonArrayStream';
+
+const pushAll = (parser: JsonArrayStreamParser, chunks: string[]) => chunks.flatMap(chunk => parser.push(chunk));
+
+describe('JsonArrayStreamParser', () => {
+  it('returns each element as soon as it is complete', () => {
+    const parser = new JsonArrayStreamParser();
+
+    expect(parser.push('[{"a": 1}, {"a"')).toEqual([{ a: 1 }]);
+    expect(parser.push(': 2}')).toEqual([{ a: 2 }]);
+    expect(parser.push(']')).toEqual([]);
+  });
+
+  it('handles elements split at every character', () => {
+    const json = '[{"text": "x"}, {"text": "y", "nested": {"n": [1, 2]}}]';
+
+    const elements = pushAll(new JsonArrayStreamParser(), json.split(''));
+
+    expect(elements).toEqual([{ text: 'x' }, { text: 'y', nested: { n: [1, 2] } }]);
+  });
+
+  it('ignores brackets and escaped quotes inside strings', () => {
+    const elements = pushAll(new JsonArrayStreamParser(), ['[{"text": "a } ] [ \\" {"}', ']']);
+
+    expect(elements).toEqual([{ text: 'a } ] [ " {' }]);
+  });
+
+  it('skips prose and code fences around the array', () => {
+    const elements = pushAll(new JsonArrayStreamParser(), ['Here you go:\n```json\n', '[{"a": 1}]', '\n```\nAnything else?']);
+
+    expect(elements).toEqual([{ a: 1 }]);
+  });
+
+  it('ignores anything after the array closes', () => {
+    const parser = new JsonArrayStreamParser();
+
+    expect(parser.push('[{"a": 1}] [{"b": 2}]')).toEqual([{ a: 1 }]);
+    expect(parser.push('{"c": 3}')).toEqual([]);
+  });
+
+  it('skips a malformed element and keeps going', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const elements = pushAll(new JsonArrayStreamParser(), ['[{"a": 1,}, {"b": 2}]']);
+
+    expect(elements).toEqual([{ b: 2 }]);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { splitIntoParagraphs, toPlainText } from '@shared/ai/chunking';
+import { AI_FLUFF_THEME } from '@/lib/lint/aiFluff';
+import {
+  LINT_THEME,
+  LONG_SENTENCE_WORDS,
+  MAX_LINT_SUGGESTIONS,
+  STYLE_GUIDE_THEME,
+  isLintSuggestionId,
+  lintText,
+} from '@/lib/lint/lintEngine';
+
+const lint = (text: string, options?: Parameters<typeof lintText>[1]) =>
+  lintText(text, options).map(({ originalText, suggestedText, theme }) => ({ originalText, suggestedText, theme }));
+
+describe('lintText', () => {
+  it('fixes doubled words but allows the ones that are correct twice', () => {
+    expect(lint('We went to the the shop.')).toEqual([
+      { originalText: 'the the', suggestedText: 'the', theme: LINT_THEME },
+    ]);
+    expect(lint('He said that that was fine.')).toEqual([]);
+  });
+
+  it('replaces nominalizations with their verb', () => {
+    expect(lint('We will make a decision tomorrow.')).toEqual([
+      { originalText: 'make a decision', suggestedText: 'decide', theme: LINT_THEME },
+    ]);
+  });
+
+  it('drops intensifiers unless the next word needs them', () => {
+    expect(lint('It was very big.')).toEqual([
+      { originalText: 'very big', suggestedText: 'big', theme: LINT_THEME },
+    ]);
+    expect(lint('Thank you very much.')).toEqual([]);
+  });
+
+  it('flags long sentences without a fix', () => {
+    const sentence = `${Array.from({ length: LONG_SENTENCE_WORDS + 1 }, (_, index) => `word${index}`).join(' ')}.`;
+
+    const [suggestion] = lintText(sentence);
+
+    expect(suggestion.originalText).toBe(sentence);
+    expect(suggestion.suggestedText).toBe(sentence);
+  });
+
+  it('flags passive voice and weasel words', () => {
+    expect(lint('The report was written yesterday.').map(suggestion => suggestion.originalText)).toEqual(['was written']);
+    expect(lint('Studies show it works.').map(suggestion => suggestion.originalText)).toEqual(['Studies show']);
+  });
+
+  it('reports AI fluff with its own theme', () => {
+    expect(lint('Let us delve into it.')).toEqual([
+      { originalText: 'delve into', suggestedText: 'explore', theme: AI_FLUFF_THEME },
+    ]);
+  });
+
+  it('flags banned phrases as whole words, with the replacement as the fix', () => {
+    const bannedPhrases = [{ phrase: 'utilize', replacement: 'use' }, { phrase: 'synergy' }];
+
+    expect(lint('Utilize the synergy, not synergyish terms.', { bannedPhrases })).toEqual([
+      { originalText: 'Utilize', suggestedText: 'Use', theme: STYLE_GUIDE_THEME },
+      { originalText: 'synergy', suggestedText: 'synergy', theme: STYLE_GUIDE_THEME },
+    ]);
+  });
+
+  it('never matches inside an HTML entity', () => {
+    const content = '<p>Salt &amp; pepper.</p>';
+
+    expect(lint(toPlainText(content), { bannedPhrases: [{ phrase: 'amp' }], paragraphs: splitIntoParagraphs(content) })).toEqual([]);
+  });
+
+  it('never matches across two blocks', () => {
+    const content = '<p>We went to the</p><p>the shop.</p>';
+
+    expect(lint(toPlainText(content), { paragraphs: splitIntoParagraphs(content) })).toEqual([]);
+  });
+
+  it('keeps the higher-priority finding where two overlap', () => {
+    // The doubled word and the intensifier share "very"
+    expect(lint('It was very very big.')).toEqual([
+      { originalText: 'very very', suggestedText: 'very', theme: LINT_THEME },
+    ]);
+  });
+
+  it('anchors each suggestion at its place in the text', () => {
+    const text = 'It was very big. It was very big.';
+
+    const suggestions = lintText(text);
+
+    expect(suggestions).toHaveLength(2);
+    suggestions.forEach(suggestion => {
+      expect(text.slice(suggestion.anchor!.start, suggestion.anchor!.end)).toBe(suggestion.originalText);
+    });
+    expect(suggestions[0].anchor!.start).toBeLessThan(suggestions[1].anchor!.start);
+  });
+
+  it('gives the same finding the same id, so a dismissal sticks', () => {
+    const [first] = lintText('It was very big.');
+    const [again] = lintText('Intro. It was very big.');
+
+    expect(isLintSuggestionId(first.id)).toBe(true);
+    expect(again.id).toBe(first.id);
+  });
+
+  it('returns at most the maximum number of suggestions', () => {
+    const text = Array.from({ length: MAX_LINT_SUGGESTIONS + 5 }, () => 'It was very big.').join(' ');
+
+    expect(lintText(text)).toHaveLength(MAX_LINT_SUGGESTIONS);
+  });
+});
@@ -0,0 +1,133 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OpenAIService, type DocumentSuggestion } from '@/lib/openai';
+import { toPlainText } from '@shared/ai/chunking';
+import { createAnchor, resolveAnchor } from '@/lib/textAnchor';
+import { findAnchoredRange, replaceAnchoredText, stripSuggestionMarkup, wrapRange } from '@/lib/suggestionMarkup';
+
+// The mock provider never talks to Supabase
+vi.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+// The suggestion flow end to end with the offline mock provider: generate,
+// position in the plain text, highlight in the editor's DOM, then accept or
+// reject the way the editor page does
+const CONTENT = '<p>We went to the the shop.</p><p>It was <b>very big</b> and we stayed in order to eat.</p>';
+
+const generate = async (content: string) => {
+  const streamed: DocumentSuggestion[] = [];
+  const suggestions = await OpenAIService.generateDocumentSuggestions({
+    content,
+    onSuggestion: suggestion => streamed.push(suggestion),
+  });
+  return { suggestions, streamed };
+};
+
+const anchored = (content: string, suggestion: DocumentSuggestion) => {
+  const { start, end } = suggestion.position!;
+  return { ...suggestion, anchor: createAnchor(toPlainText(content), start, end) };
+};
+
+const byOriginal = (suggestions: DocumentSuggestion[], originalText: string) => {
+  const suggestion = suggestions.find(candidate => candidate.originalText === originalText);
+  expect(suggestion, `a suggestion for "${originalText}"`).toBeDefined();
+  return suggestion!;
+};
+
+describe('suggestion flow with the mock provider', () => {
+  beforeEach(() => {
+    OpenAIService.useMockProvider({ latencyMs: 0, failEvery: 0 });
+  });
+
+  afterEach(() => {
+    OpenAIService.useMockProvider(null);
+  });
+
+  it('streams the same deterministic suggestions it returns', async () => {
+    const first = await generate(CONTENT);
+    const second = await generate(CONTENT);
+
+    expect(OpenAIService.isUsingMockProvider()).toBe(true);
+    expect(first.suggestions.map(suggestion => suggestion.originalText)).toEqual(
+      expect.arrayContaining(['the the', 'very big', 'in order to'])
+    );
+    expect(first.streamed).toEqual(first.suggestions);
+    expect(second.suggestions).toEqual(first.suggestions);
+  });
+
+  it('positions every suggestion on its text in the plain text', async () => {
+    const plainText = toPlainText(CONTENT);
+
+    const { suggestions } = await generate(CONTENT);
+
+    suggestions.forEach(suggestion => {
+      expect(suggestion.position).toBeDefined();
+      expect(plainText.slice(suggestion.position!.start, suggestion.position!.end)).toBe(suggestion.originalText);
+    });
+  });
+
+  it('highlights each suggestion in the editor and strips the markup again', async () => {
+    const { suggestions } = await generate(CONTENT);
+    const editor = document.createElement('div');
+    editor.innerHTML = CONTENT;
+
+    suggestions.forEach(suggestion => {
+      const { anchor } = anchored(CONTENT, suggestion);
+      const range = findAnchoredRange(editor, anchor, suggestion.originalText);
+      expect(range?.toString()).toBe(suggestion.originalText);
+      wrapRange(range!, () => {
+        const span = document.createElement('span');
+        span.className = 'suggestion-highlight';
+        return span;
+      });
+    });
+
+    expect(editor.querySelectorAll('.suggestion-highlight').length).toBeGreaterThanOrEqual(suggestions.length);
+    expect(stripSuggestionMarkup(editor)).toBe(CONTENT);
+  });
+
+  it('applies an accepted suggestion at its anchor and keeps the markup around it', async () => {
+    const { suggestions } = await generate(CONTENT);
+    const suggestion = anchored(CONTENT, byOriginal(suggestions, 'very big'));
+
+    const accepted = replaceAnchoredText(CONTENT, suggestion.anchor, suggestion.originalText, suggestion.suggestedText);
+
+    expect(accepted).toBe('<p>We went to the the shop.</p><p>It was <b>big</b> and we stayed in order to eat.</p>');
+  });
+
+  it('still applies an accepted suggestion after the text before it was edited', async () => {
+    const { suggestions } = await generate(CONTENT);
+    const suggestion = anchored(CONTENT, byOriginal(suggestions, 'in order to'));
+    const edited = `<p>A new opening line, in order to begin.</p>${CONTENT}`;
+
+    const anchor = resolveAnchor(toPlainText(edited), suggestion.anchor);
+    const accepted = replaceAnchoredText(edited, anchor!, suggestion.originalText, suggestion.suggestedText);
+
+    // The context picks the original occurrence, not the new one above it
+    expect(accepted).toBe(`<p>A new opening line, in order to begin.</p>${CONTENT.replace('in order to eat', 'to eat')}`);
+  });
+
+  it('leaves the text alone for a rejected suggestion and applies the rest', async () => {
+    const { suggestions } = await generate(CONTENT);
+    const rejected = anchored(CONTENT, byOriginal(suggestions, 'the the'));
+    const kept = anchored(CONTENT, byOriginal(suggestions, 'in order to'));
+
+    const accepted = replaceAnchoredText(CONTENT, kept.anchor, kept.originalText, kept.suggestedText);
+
+    expect(accepted).toContain(rejected.originalText);
+    expect(accepted).toBe(CONTENT.replace('in order to eat', 'to eat'));
+  });
+
+  it('refuses to apply a suggestion whose text was edited away', async () => {
+    const { suggestions } = await generate(CONTENT);
+    const suggestion = anchored(CONTENT, byOriginal(suggestions, 'very big'));
+
+    expect(replaceAnchoredText('<p>It was huge.</p>', suggestion.anchor, suggestion.originalText, suggestion.suggestedText)).toBeNull();
+  });
+
+  it('fails on purpose with the configured kind', async () => {
+    OpenAIService.useMockProvider({ latencyMs: 0, failEvery: 1, failureKind: 'auth' });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(generate(CONTENT)).rejects.toMatchObject({ kind: 'auth' });
+  });
+});
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RequestScheduler } from '@/lib/requestScheduler';
+import { AIServiceError } from '@shared/ai/errors';
+
+const retryPolicy = { maxRetries: 3, baseDelayMs: 1000, maxDelayMs: 8000 };
+
+describe('RequestScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('retries retryable errors with exponential backoff', async () => {
+    const scheduler = new RequestScheduler(1, retryPolicy);
+    const attempts: number[] = [];
+    const task = vi.fn(async () => {
+      attempts.push(Date.now());
+      if (attempts.length < 4) {
+        throw new AIServiceError('Overloaded', { kind: 'server' });
+      }
+      return 'done';
+    });
+
+    const result = scheduler.run(task);
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toBe('done');
+    const delays = attempts.slice(1).map((time, index) => time - attempts[index]);
+    expect(delays).toEqual([1000, 2000, 4000]);
+  });
+
+  it('caps the backoff at the maximum delay', async () => {
+    const scheduler = new RequestScheduler(1, { maxRetries: 5, baseDelayMs: 1000, maxDelayMs: 3000 });
+    const attempts: number[] = [];
+
+    const result = scheduler.run(async () => {
+      attempts.push(Date.now());
+      throw new AIServiceError('Dropped', { kind: 'network' });
+    });
+    result.catch(() => {});
+    await vi.runAllTimersAsync();
+
+    await expect(result).rejects.toMatchObject({ kind: 'network' });
+    const delays = attempts.slice(1).map((time, index) => time - attempts[index]);
+    expect(delays).toEqual([1000, 2000, 3000, 3000, 3000]);
+  });
+
+  it('waits as long as Retry-After says', async () => {
+    const scheduler = new RequestScheduler(1, retryPolicy);
+    const attempts: number[] = [];
+
+    const result = scheduler.run(async () => {
+      attempts.push(Date.now());
+      if (attempts.length === 1) {
+        throw new AIServiceError('Slow down', { kind: 'rate-limit', retryAfterMs: 5000 });
+      }
+      return 'done';
+    });
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toBe('done');
+    expect(attempts[1] - attempts[0]).toBe(5000);
+  });
+
+  it('does not retry errors that need the user', async () => {
+    const scheduler = new RequestScheduler(1, retryPolicy);
+    const task = vi.fn(async () => {
+      throw new AIServiceError('Invalid key', { kind: 'auth' });
+    });
+
+    await expect(scheduler.run(task)).rejects.toMatchObject({ kind: 'auth' });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry an unexpected TypeError as a network error', async () => {
+    const scheduler = new RequestScheduler(1, retryPolicy);
+    const task = vi.fn(async () => {
+      throw new TypeError("Cannot read properties of undefined (reading 'text')");
+    });
+
+    await expect(scheduler.run(task)).rejects.toMatchObject({ kind: 'unknown' });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels a request while it backs off', async () => {
+    const scheduler = new RequestScheduler(1, retryPolicy);
+    const controller = new AbortController();
+    const task = vi.fn(async () => {
+      throw new AIServiceError('Overloaded', { kind: 'server' });
+    });
+
+    const result = scheduler.run(task, { signal: controller.signal });
+    result.catch(() => {});
+    await vi.advanceTimersByTimeAsync(500);
+    controller.abort();
+
+    await expect(result).rejects.toMatchObject({ kind: 'cancelled' });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs no more requests at once than allowed', async () => {
+    const scheduler = new RequestScheduler(2, retryPolicy);
+    let running = 0;
+    let mostRunning = 0;
+    const task = async () => {
+      running++;
+      mostRunning = Math.max(mostRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 100));
+      running--;
+    };
+
+    const results = Promise.all(Array.from({ length: 5 }, () => scheduler.run(task)));
+    await vi.runAllTimersAsync();
+    await results;
+
+    expect(mostRunning).toBe(2);
+  });
+});
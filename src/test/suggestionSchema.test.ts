@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_ALTERNATIVES,
+  extractSuggestionItems,
+  validateSuggestion,
+  validateSuggestions,
+} from '@shared/ai/suggestionSchema';
+
+const valid = { originalText: 'very big', suggestedText: 'huge', explanation: ' Stronger word. ' };
+
+describe('validateSuggestion', () => {
+  it('accepts a complete suggestion and trims the explanation', () => {
+    expect(validateSuggestion(valid)).toEqual({
+      suggestion: { originalText: 'very big', suggestedText: 'huge', explanation: 'Stronger word.' },
+      reasons: [],
+    });
+  });
+
+  it('reports every missing, mistyped or empty field', () => {
+    const { suggestion, reasons } = validateSuggestion({ originalText: 'x', suggestedText: 3, explanation: '  ' });
+
+    expect(suggestion).toBeUndefined();
+    expect(reasons).toEqual(['"suggestedText" must be a string, got number', '"explanation" is empty']);
+  });
+
+  it('rejects anything that is not an object', () => {
+    expect(validateSuggestion(null).reasons).toEqual(['not an object']);
+    expect(validateSuggestion([valid]).reasons).toEqual(['not an object']);
+    expect(validateSuggestion('text').reasons).toEqual(['not an object']);
+  });
+
+  it('rejects a rewrite identical to the original unless unchanged text is allowed', () => {
+    const unchanged = { ...valid, suggestedText: ' very big ' };
+
+    expect(validateSuggestion(unchanged).reasons).toEqual(['suggestedText is identical to originalText']);
+    expect(validateSuggestion(unchanged, { allowUnchangedText: true }).suggestion).toBeDefined();
+  });
+
+  it('keeps usable alternatives only, up to the limit', () => {
+    const { suggestion } = validateSuggestion({
+      ...valid,
+      alternatives: ['large', 'huge', 'very big', '', 4, 'large', 'vast', 'enormous', 'immense'],
+    });
+
+    expect(suggestion?.alternatives).toEqual(['large', 'vast', 'enormous']);
+    expect(suggestion?.alternatives).toHaveLength(MAX_ALTERNATIVES);
+  });
+
+  it('leaves alternatives out when none are usable', () => {
+    expect(validateSuggestion({ ...valid, alternatives: 'large' }).suggestion).not.toHaveProperty('alternatives');
+  });
+});
+
+describe('validateSuggestions', () => {
+  it('splits items into valid ones and rejections with their index', () => {
+    const { valid: accepted, rejected } = validateSuggestions([valid, { originalText: 'x' }]);
+
+    expect(accepted).toHaveLength(1);
+    expect(rejected).toEqual([
+      { index: 1, item: { originalText: 'x' }, reasons: ['missing "suggestedText"', 'missing "explanation"'] },
+    ]);
+  });
+});
+
+describe('extractSuggestionItems', () => {
+  it('accepts a bare array and the structured shape', () => {
+    expect(extractSuggestionItems([valid])).toEqual([valid]);
+    expect(extractSuggestionItems({ suggestions: [valid] })).toEqual([valid]);
+  });
+
+  it('returns null for anything else', () => {
+    expect(extractSuggestionItems({ items: [] })).toBeNull();
+    expect(extractSuggestionItems('[]')).toBeNull();
+  });
+});
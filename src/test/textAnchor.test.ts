@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { anchorQuote, anchorsEqual, anchorsOverlap, createAnchor, resolveAnchor } from '@/lib/textAnchor';
+
+describe('createAnchor', () => {
+  it('keeps the quote with up to 32 characters of context on either side', () => {
+    const text = `${'a'.repeat(40)}QUOTE${'b'.repeat(40)}`;
+
+    const anchor = createAnchor(text, 40, 45);
+
+    expect(anchor).toEqual({ quote: 'QUOTE', prefix: 'a'.repeat(32), suffix: 'b'.repeat(32), start: 40, end: 45 });
+  });
+});
+
+describe('resolveAnchor', () => {
+  it('follows the quote when text is inserted before it', () => {
+    const anchor = createAnchor('The quick fox.', 4, 9);
+
+    const resolved = resolveAnchor('Today the quick fox.', anchor);
+
+    expect(resolved).toMatchObject({ quote: 'quick', start: 10, end: 15 });
+  });
+
+  it('picks the occurrence whose context matches among repeated quotes', () => {
+    const original = 'I like tea. You like coffee.';
+    const anchor = createAnchor(original, original.indexOf('like coffee'), original.indexOf('like coffee') + 4);
+
+    // Both occurrences moved, and the first is now nearer the old offset
+    const edited = 'Yes. You like coffee and I like tea.';
+    const resolved = resolveAnchor(edited, anchor);
+
+    expect(resolved?.start).toBe(edited.indexOf('like coffee'));
+  });
+
+  it('breaks a tie in context by the distance to the last known offset', () => {
+    const text = 'go go go';
+    const anchor = { quote: 'go', prefix: '', suffix: '', start: 6, end: 8 };
+
+    expect(resolveAnchor(text, anchor)?.start).toBe(6);
+  });
+
+  it('returns null once the quote is gone', () => {
+    const anchor = createAnchor('Remove this word.', 7, 11);
+
+    expect(resolveAnchor('Remove word.', anchor)).toBeNull();
+  });
+
+  it('returns null for an empty quote', () => {
+    expect(resolveAnchor('text', { quote: '', prefix: '', suffix: '', start: 0, end: 0 })).toBeNull();
+  });
+});
+
+describe('anchorQuote', () => {
+  it('anchors the occurrence nearest the given offset', () => {
+    expect(anchorQuote('ab ab ab', 'ab', 4)?.start).toBe(3);
+    expect(anchorQuote('ab ab ab', 'ab')?.start).toBe(0);
+  });
+});
+
+describe('anchorsOverlap', () => {
+  it('treats touching ranges as separate', () => {
+    expect(anchorsOverlap({ start: 0, end: 5 }, { start: 5, end: 8 })).toBe(false);
+    expect(anchorsOverlap({ start: 0, end: 6 }, { start: 5, end: 8 })).toBe(true);
+  });
+});
+
+describe('anchorsEqual', () => {
+  it('compares offsets and context', () => {
+    const anchor = createAnchor('one two three', 4, 7);
+
+    expect(anchorsEqual(anchor, { ...anchor })).toBe(true);
+    expect(anchorsEqual(anchor, { ...anchor, start: 5 })).toBe(false);
+    expect(anchorsEqual(anchor, undefined)).toBe(false);
+    expect(anchorsEqual(undefined, undefined)).toBe(true);
+  });
+});
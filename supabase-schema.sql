@@ -4,6 +4,8 @@ CREATE TABLE IF NOT EXISTS documents (
   title TEXT NOT NULL DEFAULT 'Untitled Document',
   content TEXT NOT NULL DEFAULT '',
   user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  brief JSONB, -- Writing brief (audience, purpose, tone, ...); see supabase/functions/_shared/ai/documentBrief.ts
+  persona TEXT, -- Reviewer persona: 'copy', 'line', 'developmental'; NULL for all-round suggestions
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -23,18 +25,87 @@ CREATE TABLE IF NOT EXISTS document_shares (
 CREATE TABLE IF NOT EXISTS user_settings (
   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
   user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE UNIQUE,
-  openai_api_key TEXT,
+  -- One key per provider, envelope-encrypted by the api-key Edge Function and only decrypted server-side
+  openai_api_key_encrypted TEXT,
+  anthropic_api_key_encrypted TEXT,
+  openai_compatible_api_key_encrypted TEXT, -- Cleared whenever ai_base_url changes
+  has_openai_api_key BOOLEAN GENERATED ALWAYS AS (openai_api_key_encrypted IS NOT NULL) STORED,
+  has_anthropic_api_key BOOLEAN GENERATED ALWAYS AS (anthropic_api_key_encrypted IS NOT NULL) STORED,
+  has_openai_compatible_api_key BOOLEAN GENERATED ALWAYS AS (openai_compatible_api_key_encrypted IS NOT NULL) STORED,
+  ai_provider TEXT DEFAULT 'openai', -- 'openai', 'anthropic', 'openai-compatible'
+  ai_base_url TEXT, -- Only used by OpenAI-compatible servers (e.g. a local Ollama instance)
   ai_model TEXT DEFAULT 'gpt-3.5-turbo',
   suggestion_frequency TEXT DEFAULT 'normal', -- 'low', 'normal', 'high'
+  monthly_budget_usd NUMERIC(10, 2), -- NULL means no cap; see supabase/functions/_shared/ai/budget.ts
+  prompt_templates JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ id, name, body }]; see supabase/functions/_shared/ai/promptTemplates.ts
+  active_prompt_template_id TEXT, -- NULL means the built-in prompt
+  style_rules JSONB NOT NULL DEFAULT '[]'::jsonb, -- House style rules added to every prompt
+  banned_phrases JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ phrase, replacement? }]; see supabase/functions/_shared/ai/bannedPhrases.ts
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Create the ai_usage table: one row per provider request, written by the suggest Edge Function
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  document_id UUID REFERENCES documents(id) ON DELETE SET NULL, -- Usage outlives deleted documents
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  suggestion_type TEXT NOT NULL DEFAULT 'general',
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  estimated_cost NUMERIC(12, 6), -- USD at list prices; NULL when the model's price is unknown
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create the suggestion_feedback table: one row per accepted or rejected AI suggestion
+CREATE TABLE IF NOT EXISTS suggestion_feedback (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  document_id UUID REFERENCES documents(id) ON DELETE SET NULL, -- Feedback outlives deleted documents
+  theme TEXT NOT NULL DEFAULT 'general',
+  original_text TEXT NOT NULL,
+  suggested_text TEXT NOT NULL,
+  explanation TEXT NOT NULL DEFAULT '',
+  model TEXT, -- e.g. 'openai:gpt-4o'
+  outcome TEXT NOT NULL CHECK (outcome IN ('accepted', 'rejected')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create the document_suggestions table: AI suggestions saved with their document
+CREATE TABLE IF NOT EXISTS document_suggestions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID REFERENCES documents(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  suggestion_id TEXT NOT NULL, -- The id the editor gave the suggestion
+  original_text TEXT NOT NULL,
+  suggested_text TEXT NOT NULL,
+  explanation TEXT NOT NULL DEFAULT '',
+  alternatives JSONB NOT NULL DEFAULT '[]'::jsonb,
+  theme TEXT,
+  model TEXT, -- e.g. 'openai:gpt-4o'
+  -- Anchor: original_text plus the text around it and its last known offsets
+  -- in the document's plain text (see src/lib/textAnchor.ts)
+  anchor_prefix TEXT,
+  anchor_suffix TEXT,
+  anchor_start INTEGER,
+  anchor_end INTEGER,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'accepted', 'rejected', 'stale')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (document_id, suggestion_id)
+);
+
 -- Create indexes
 CREATE INDEX IF NOT EXISTS idx_documents_updated_at ON documents(updated_at DESC);
 CREATE INDEX IF NOT EXISTS idx_user_settings_user_id ON user_settings(user_id);
 CREATE INDEX IF NOT EXISTS idx_document_shares_token ON document_shares(share_token);
 CREATE INDEX IF NOT EXISTS idx_document_shares_document_id ON document_shares(document_id);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_user_id_created_at ON ai_usage(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_document_id ON ai_usage(document_id);
+CREATE INDEX IF NOT EXISTS idx_suggestion_feedback_user_id_created_at ON suggestion_feedback(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_document_suggestions_document_id_status ON document_suggestions(document_id, status);
 
 -- Create a function to automatically update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -58,10 +129,48 @@ CREATE TRIGGER update_user_settings_updated_at
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS update_document_suggestions_updated_at ON document_suggestions;
+CREATE TRIGGER update_document_suggestions_updated_at
+    BEFORE UPDATE ON document_suggestions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- API keys can only be written through the api-key Edge Function (service role).
+-- A key entered for an OpenAI-compatible server is never sent to a different one.
+CREATE OR REPLACE FUNCTION protect_encrypted_api_key()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.role() IS DISTINCT FROM 'service_role' AND current_user NOT IN ('postgres', 'supabase_admin') THEN
+        IF TG_OP = 'INSERT' THEN
+            NEW.openai_api_key_encrypted = NULL;
+            NEW.anthropic_api_key_encrypted = NULL;
+            NEW.openai_compatible_api_key_encrypted = NULL;
+        ELSE
+            NEW.openai_api_key_encrypted = OLD.openai_api_key_encrypted;
+            NEW.anthropic_api_key_encrypted = OLD.anthropic_api_key_encrypted;
+            NEW.openai_compatible_api_key_encrypted = OLD.openai_compatible_api_key_encrypted;
+        END IF;
+    END IF;
+    IF TG_OP = 'UPDATE' AND NEW.ai_base_url IS DISTINCT FROM OLD.ai_base_url THEN
+        NEW.openai_compatible_api_key_encrypted = NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS protect_user_settings_api_key ON user_settings;
+CREATE TRIGGER protect_user_settings_api_key
+    BEFORE INSERT OR UPDATE ON user_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION protect_encrypted_api_key();
+
 -- Enable Row Level Security (RLS)
 ALTER TABLE documents ENABLE ROW LEVEL SECURITY;
 ALTER TABLE user_settings ENABLE ROW LEVEL SECURITY;
 ALTER TABLE document_shares ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ai_usage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE suggestion_feedback ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_suggestions ENABLE ROW LEVEL SECURITY;
 
 -- Remove any existing policies before creating new ones
 DROP POLICY IF EXISTS "Enable all operations for everyone" ON documents; 
@@ -75,6 +184,16 @@ DROP POLICY IF EXISTS "Users can view their own settings" ON user_settings;
 DROP POLICY IF EXISTS "Users can update their own settings" ON user_settings;
 DROP POLICY IF EXISTS "Users can delete their own settings" ON user_settings;
 
+DROP POLICY IF EXISTS "Users can view their own usage" ON ai_usage;
+
+DROP POLICY IF EXISTS "Users can record their own suggestion feedback" ON suggestion_feedback;
+DROP POLICY IF EXISTS "Users can view their own suggestion feedback" ON suggestion_feedback;
+
+DROP POLICY IF EXISTS "Users can save suggestions for their own documents" ON document_suggestions;
+DROP POLICY IF EXISTS "Users can view their own saved suggestions" ON document_suggestions;
+DROP POLICY IF EXISTS "Users can update their own saved suggestions" ON document_suggestions;
+DROP POLICY IF EXISTS "Users can delete their own saved suggestions" ON document_suggestions;
+
 -- Documents policies
 CREATE POLICY "Users can insert their own documents"
 ON documents
@@ -177,4 +296,84 @@ CREATE POLICY "Users can delete their own document shares"
 ON document_shares
 FOR DELETE
 TO authenticated
-USING (auth.uid() = created_by); 
+USING (auth.uid() = created_by);
+
+-- AI usage policies: read-only for users, rows are only inserted with the service role
+CREATE POLICY "Users can view their own usage"
+ON ai_usage
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Daily totals per document and model for the usage dashboard.
+-- security_invoker applies the ai_usage policies to whoever queries the view.
+CREATE OR REPLACE VIEW ai_usage_daily
+WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  document_id,
+  model,
+  date_trunc('day', created_at)::date AS day,
+  COUNT(*) AS requests,
+  SUM(prompt_tokens) AS prompt_tokens,
+  SUM(completion_tokens) AS completion_tokens,
+  SUM(estimated_cost) AS estimated_cost,
+  COUNT(*) FILTER (WHERE estimated_cost IS NULL) AS unpriced_requests
+FROM ai_usage
+GROUP BY user_id, document_id, model, date_trunc('day', created_at)::date;
+
+-- Suggestion feedback policies: recorded from the editor, against the user's own documents only
+CREATE POLICY "Users can record their own suggestion feedback"
+ON suggestion_feedback
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    document_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM documents
+      WHERE documents.id = document_id
+      AND documents.user_id = auth.uid()
+    )
+  )
+);
+
+CREATE POLICY "Users can view their own suggestion feedback"
+ON suggestion_feedback
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Saved suggestion policies
+CREATE POLICY "Users can save suggestions for their own documents"
+ON document_suggestions
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM documents
+    WHERE documents.id = document_id
+    AND documents.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can view their own saved suggestions"
+ON document_suggestions
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own saved suggestions"
+ON document_suggestions
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own saved suggestions"
+ON document_suggestions
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
@@ -0,0 +1,51 @@
+// The writer's personal list of phrases they never want to write, each with an
+// optional preferred replacement. Stored in user_settings.banned_phrases,
+// flagged locally as the writer types and added to the suggestion prompt so AI
+// rewrites don't bring them back. Shared by the browser and the `suggest` Edge
+// Function.
+
+export interface BannedPhrase {
+  phrase: string;
+  // What to write instead; without one the phrase is only flagged
+  replacement?: string;
+}
+
+export const MAX_BANNED_PHRASES = 100;
+export const MAX_BANNED_PHRASE_LENGTH = 100;
+
+// Settings are user-editable JSON: anything malformed is dropped, lengths are
+// capped and a phrase listed twice keeps its first entry
+export const normalizeBannedPhrases = (value: unknown): BannedPhrase[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const seen = new Set<string>();
+  const phrases: BannedPhrase[] = [];
+  value
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+    .forEach(item => {
+      const phrase = typeof item.phrase === 'string' ? item.phrase.trim().slice(0, MAX_BANNED_PHRASE_LENGTH) : '';
+      if (!phrase || seen.has(phrase.toLowerCase())) {
+        return;
+      }
+      seen.add(phrase.toLowerCase());
+
+      const replacement = typeof item.replacement === 'string'
+        ? item.replacement.trim().slice(0, MAX_BANNED_PHRASE_LENGTH)
+        : '';
+      phrases.push(replacement ? { phrase, replacement } : { phrase });
+    });
+
+  return phrases.slice(0, MAX_BANNED_PHRASES);
+};
+
+// One line per phrase, with its replacement when there is one
+export const formatBannedPhrasesForPrompt = (phrases: BannedPhrase[]): string =>
+  phrases
+    .map(({ phrase, replacement }) => (replacement ? `- "${phrase}" (write "${replacement}" instead)` : `- "${phrase}"`))
+    .join('\n');
+
+// Stable text for the list, '' when it is empty. Part of the suggestion cache key.
+export const bannedPhrasesKey = (phrases: BannedPhrase[]): string =>
+  phrases.map(({ phrase, replacement }) => `${phrase}=${replacement ?? ''}`).join('\n');
@@ -0,0 +1,41 @@
+// Monthly spending caps. As spending approaches the user's budget, suggestions
+// degrade step by step instead of stopping abruptly: first only on request,
+// then with the provider's cheaper model, then not at all. Shared by the
+// browser and the `suggest` Edge Function so both agree on the current level.
+
+// 'normal': automatic suggestions; 'manual-only': only when the user asks;
+// 'economy': manual-only with the cheaper model; 'off': budget used up
+export type BudgetLevel = 'normal' | 'manual-only' | 'economy' | 'off';
+
+// Fraction of the budget at which each level starts
+export const BUDGET_THRESHOLDS = {
+  manualOnly: 0.75,
+  economy: 0.9,
+  off: 1,
+} as const;
+
+// No budget (null or undefined) means no cap. A budget of 0 turns suggestions off.
+export const budgetLevelFor = (spent: number, budget: number | null | undefined): BudgetLevel => {
+  if (budget === null || budget === undefined) {
+    return 'normal';
+  }
+  if (budget <= 0) {
+    return 'off';
+  }
+
+  const fraction = spent / budget;
+  if (fraction >= BUDGET_THRESHOLDS.off) {
+    return 'off';
+  }
+  if (fraction >= BUDGET_THRESHOLDS.economy) {
+    return 'economy';
+  }
+  if (fraction >= BUDGET_THRESHOLDS.manualOnly) {
+    return 'manual-only';
+  }
+  return 'normal';
+};
+
+// Budgets reset on the first of the month, UTC, the same days ai_usage_daily groups by
+export const budgetPeriodStart = (now: Date = new Date()): string =>
+  `${now.getUTCFullYear()}-${String(now.getUTCMonth() + 1).padStart(2, '0')}-01`;
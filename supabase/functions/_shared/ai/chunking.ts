@@ -0,0 +1,173 @@
+// Splits a document into paragraph windows that fit a token budget, so long
+// documents can be analyzed window by window instead of in a single prompt.
+// Offsets are in the coordinates of the document's plain text (tags stripped,
+// trimmed), the same coordinates suggestion positions use.
+import type { ParsedSuggestion } from './suggestionSchema.ts';
+
+export interface Paragraph {
+  text: string;
+  start: number;
+  end: number;
+  // Content hash used to tell which paragraphs changed since they were analyzed.
+  // Pieces of an oversized paragraph keep the hash of the whole paragraph.
+  hash: string;
+}
+
+export interface AnalysisWindow {
+  index: number;
+  paragraphs: Paragraph[];
+  // Paragraphs joined with blank lines, as sent to the provider
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface DocumentSuggestion extends ParsedSuggestion {
+  windowIndex: number;
+  position?: { start: number; end: number };
+}
+
+// Roughly 900 words of document text per window, leaving room in the context
+// for the prompt and the response
+export const DEFAULT_WINDOW_TOKENS = 1200;
+
+// Block-level tags produced by the contentEditable editor, plus line breaks
+const BLOCK_BOUNDARY = /<\/?(?:p|div|h[1-6]|li|ul|ol|blockquote|pre)\b[^>]*>|<br\s*\/?>/gi;
+
+export const toPlainText = (content: string): string => content.replace(/<[^>]*>?/gm, '').trim();
+
+// cyrb53: a fast, non-cryptographic 53-bit string hash
+export const hashText = (text: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+// Cheap approximation (~4 characters per token for English prose), good enough for budgeting
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export const splitIntoParagraphs = (content: string): Paragraph[] => {
+  const plainText = toPlainText(content);
+  const blocks = content
+    .split(BLOCK_BOUNDARY)
+    .map(block => block.replace(/<[^>]*>?/gm, ''))
+    .flatMap(block => block.split(/\n\s*\n/))
+    .map(block => block.trim())
+    .filter(block => block.length > 0);
+
+  // Blocks appear in document order, so each one is located after the previous
+  const paragraphs: Paragraph[] = [];
+  let cursor = 0;
+  blocks.forEach(text => {
+    const start = plainText.indexOf(text, cursor);
+    if (start === -1) {
+      return;
+    }
+    paragraphs.push({ text, start, end: start + text.length, hash: hashText(text) });
+    cursor = start + text.length;
+  });
+
+  return paragraphs;
+};
+
+const makePiece = (paragraph: Paragraph, offset: number, length: number): Paragraph => {
+  const raw = paragraph.text.slice(offset, offset + length);
+  const leading = raw.length - raw.trimStart().length;
+  const text = raw.trim();
+  const start = paragraph.start + offset + leading;
+  return { text, start, end: start + text.length, hash: paragraph.hash };
+};
+
+// Paragraphs over the budget are broken at sentence boundaries
+const splitOversizedParagraph = (paragraph: Paragraph, maxTokens: number): Paragraph[] => {
+  if (estimateTokens(paragraph.text) <= maxTokens) {
+    return [paragraph];
+  }
+
+  const sentences = paragraph.text.match(/[^.!?]+(?:[.!?]+|$)\s*/g) || [paragraph.text];
+  const pieces: Paragraph[] = [];
+  let pieceStart = 0;
+  let pieceLength = 0;
+
+  sentences.forEach(sentence => {
+    if (pieceLength > 0 && estimateTokens(paragraph.text.slice(pieceStart, pieceStart + pieceLength + sentence.length)) > maxTokens) {
+      pieces.push(makePiece(paragraph, pieceStart, pieceLength));
+      pieceStart += pieceLength;
+      pieceLength = 0;
+    }
+    pieceLength += sentence.length;
+  });
+  if (pieceLength > 0) {
+    pieces.push(makePiece(paragraph, pieceStart, pieceLength));
+  }
+
+  return pieces.filter(piece => piece.text.length > 0);
+};
+
+export const createWindow = (index: number, paragraphs: Paragraph[]): AnalysisWindow => ({
+  index,
+  paragraphs,
+  text: paragraphs.map(paragraph => paragraph.text).join('\n\n'),
+  start: paragraphs[0].start,
+  end: paragraphs[paragraphs.length - 1].end,
+});
+
+// `include` restricts the windows to some paragraphs, e.g. only the ones that
+// changed since the last analysis. Included paragraphs don't have to be adjacent.
+export const buildAnalysisWindows = (
+  content: string,
+  maxTokens: number = DEFAULT_WINDOW_TOKENS,
+  include: (paragraph: Paragraph) => boolean = () => true
+): AnalysisWindow[] => {
+  const paragraphs = splitIntoParagraphs(content)
+    .filter(include)
+    .flatMap(paragraph => splitOversizedParagraph(paragraph, maxTokens));
+  const windows: AnalysisWindow[] = [];
+  let current: Paragraph[] = [];
+  let currentTokens = 0;
+
+  paragraphs.forEach(paragraph => {
+    const tokens = estimateTokens(paragraph.text);
+    if (current.length > 0 && currentTokens + tokens > maxTokens) {
+      windows.push(createWindow(windows.length, current));
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(paragraph);
+    currentTokens += tokens;
+  });
+  if (current.length > 0) {
+    windows.push(createWindow(windows.length, current));
+  }
+
+  return windows;
+};
+
+// Maps a suggestion made on a window back to document coordinates. The position
+// is left unset when the text spans paragraphs or wasn't copied verbatim, in
+// which case callers fall back to searching the whole document.
+export const mapSuggestionToDocument = (
+  analysisWindow: AnalysisWindow,
+  suggestion: ParsedSuggestion
+): DocumentSuggestion => {
+  for (const paragraph of analysisWindow.paragraphs) {
+    const index = paragraph.text.indexOf(suggestion.originalText);
+    if (index !== -1) {
+      const start = paragraph.start + index;
+      return {
+        ...suggestion,
+        windowIndex: analysisWindow.index,
+        position: { start, end: start + suggestion.originalText.length },
+      };
+    }
+  }
+
+  return { ...suggestion, windowIndex: analysisWindow.index };
+};
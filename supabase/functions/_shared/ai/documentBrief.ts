@@ -0,0 +1,68 @@
+// A per-document writing brief: who the piece is for and what it is trying to
+// do. Stored in documents.brief and added to the system prompt, so suggestions
+// work towards the writer's intent instead of a generic idea of good writing.
+
+export interface DocumentBrief {
+  audience?: string;
+  purpose?: string;
+  tone?: string;
+  targetLength?: string;
+  genre?: string;
+}
+
+export interface DocumentBriefField {
+  key: keyof DocumentBrief;
+  label: string;
+  placeholder: string;
+}
+
+export const DOCUMENT_BRIEF_FIELDS: DocumentBriefField[] = [
+  { key: 'audience', label: 'Audience', placeholder: 'e.g. Hiring managers skimming applications' },
+  { key: 'purpose', label: 'Purpose', placeholder: 'e.g. Persuade the board to fund a pilot' },
+  { key: 'tone', label: 'Tone', placeholder: 'e.g. Warm but professional' },
+  { key: 'targetLength', label: 'Target length', placeholder: 'e.g. About 800 words' },
+  { key: 'genre', label: 'Genre', placeholder: 'e.g. Cover letter, blog post, short story' },
+];
+
+// Briefs come from the browser and end up in a prompt, so fields are capped
+export const MAX_BRIEF_FIELD_LENGTH = 300;
+
+// Keeps the known fields that have text, trimmed and capped. Returns undefined
+// for anything that isn't a brief or has nothing filled in.
+export const normalizeBrief = (value: unknown): DocumentBrief | undefined => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+
+  const record = value as Record<string, unknown>;
+  const brief: DocumentBrief = {};
+  DOCUMENT_BRIEF_FIELDS.forEach(({ key }) => {
+    const field = record[key];
+    if (typeof field === 'string' && field.trim()) {
+      brief[key] = field.trim().slice(0, MAX_BRIEF_FIELD_LENGTH);
+    }
+  });
+
+  return Object.keys(brief).length > 0 ? brief : undefined;
+};
+
+// Stable text for the filled-in fields, '' when there is no brief. Part of the
+// suggestion cache key, so editing the brief doesn't serve stale suggestions.
+export const briefCacheKey = (brief: DocumentBrief | null | undefined): string => {
+  const normalized = normalizeBrief(brief);
+  if (!normalized) {
+    return '';
+  }
+
+  return DOCUMENT_BRIEF_FIELDS
+    .filter(({ key }) => normalized[key])
+    .map(({ key }) => `${key}=${normalized[key]}`)
+    .join('\n');
+};
+
+// One "- Label: value" line per filled-in field
+export const formatBriefForPrompt = (brief: DocumentBrief): string =>
+  DOCUMENT_BRIEF_FIELDS
+    .filter(({ key }) => brief[key])
+    .map(({ key, label }) => `- ${label}: ${brief[key]}`)
+    .join('\n');
@@ -0,0 +1,62 @@
+// Reviewer personas, each a separate kind of editing pass with its own prompt,
+// granularity and suggestion limit. Without a persona the engine uses its
+// all-round prompt. Shared by the browser and the `suggest` Edge Function.
+
+export type EditorPersonaId = 'copy' | 'line' | 'developmental';
+
+export interface EditorPersona {
+  id: EditorPersonaId;
+  label: string;
+  description: string;
+  // Completes "You are ..." at the start of the system prompt
+  role: string;
+  // Replaces the all-round focus requirements in the system prompt
+  instructions: string[];
+  // Most suggestions a single request may return
+  maxSuggestions: number;
+}
+
+export const EDITOR_PERSONAS: EditorPersona[] = [
+  {
+    id: 'copy',
+    label: 'Copy editor',
+    description: 'Spelling, grammar, punctuation and consistency only',
+    role: 'a meticulous copy editor',
+    instructions: [
+      'Fix mechanics ONLY: spelling, grammar, punctuation, capitalization, agreement and consistency of terms and numbers',
+      'Do NOT rephrase for style, tone or flow, and never change the meaning',
+      'originalText should be the smallest span that contains the error: a word or a short phrase',
+    ],
+    maxSuggestions: 10,
+  },
+  {
+    id: 'line',
+    label: 'Line editor',
+    description: 'Sentence-level rewrites for rhythm, clarity and word choice',
+    role: 'an experienced line editor',
+    instructions: [
+      'Rewrite individual sentences to improve rhythm, clarity, word choice and transitions',
+      'Keep the writer\'s voice and meaning; do not restructure paragraphs',
+      'originalText should be one complete sentence, or two closely linked ones',
+    ],
+    maxSuggestions: 6,
+  },
+  {
+    id: 'developmental',
+    label: 'Developmental editor',
+    description: 'Paragraph-level notes on structure, argument and pacing',
+    role: 'a developmental editor focused on the big picture',
+    instructions: [
+      'Look at structure: the order of ideas, gaps in the argument, pacing, redundancy between paragraphs and weak openings or conclusions',
+      'Ignore spelling, grammar and word-level polish',
+      'originalText should be a whole paragraph; suggestedText restructures it, and explanation is a structural note on why',
+    ],
+    maxSuggestions: 3,
+  },
+];
+
+export const isEditorPersonaId = (value: unknown): value is EditorPersonaId =>
+  EDITOR_PERSONAS.some(persona => persona.id === value);
+
+export const getEditorPersona = (id: string | null | undefined): EditorPersona | undefined =>
+  EDITOR_PERSONAS.find(persona => persona.id === id);
@@ -0,0 +1,97 @@
+// Typed errors for AI requests. The kind survives the trip from the provider
+// through the `suggest` Edge Function to the browser, so the UI can tell an
+// invalid key from a rate limit or a dropped connection.
+export type AIErrorKind = 'auth' | 'quota' | 'rate-limit' | 'network' | 'server' | 'cancelled' | 'unknown';
+
+interface AIServiceErrorOptions {
+  kind: AIErrorKind;
+  status?: number;
+  retryAfterMs?: number;
+}
+
+const RETRYABLE_KINDS: AIErrorKind[] = ['rate-limit', 'server', 'network'];
+
+export class AIServiceError extends Error {
+  kind: AIErrorKind;
+  status?: number;
+  // How long the provider asked us to wait before trying again, if it said
+  retryAfterMs?: number;
+
+  constructor(message: string, { kind, status, retryAfterMs }: AIServiceErrorOptions) {
+    super(message);
+    this.name = 'AIServiceError';
+    this.kind = kind;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+// Providers report an exhausted balance with the same statuses as other
+// errors (OpenAI: 429 insufficient_quota, Anthropic: 400 "credit balance")
+const QUOTA_PATTERN = /quota|billing|credit balance|insufficient_funds/i;
+
+export const errorKindForStatus = (status: number, message = ''): AIErrorKind => {
+  if ([400, 402, 403, 429].includes(status) && QUOTA_PATTERN.test(message)) {
+    return 'quota';
+  }
+  if (status === 401 || status === 403) {
+    return 'auth';
+  }
+  if (status === 402) {
+    return 'quota';
+  }
+  if (status === 429) {
+    return 'rate-limit';
+  }
+  if (status === 408 || status >= 500) {
+    return 'server';
+  }
+  return 'unknown';
+};
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+export const toAIServiceError = (error: unknown): AIServiceError => {
+  if (error instanceof AIServiceError) {
+    return error;
+  }
+  if (isAbortError(error)) {
+    return new AIServiceError('Request was cancelled', { kind: 'cancelled' });
+  }
+  return new AIServiceError(error instanceof Error ? error.message : String(error), { kind: 'unknown' });
+};
+
+// For a promise that only rejects when the connection fails, such as fetch or
+// reading a response body: it rejects with a TypeError then. Any other
+// TypeError is a bug and must not be retried as a network error, so only
+// these calls are wrapped.
+export const withNetworkErrors = async <T>(request: Promise<T>): Promise<T> => {
+  try {
+    return await request;
+  } catch (error) {
+    if (error instanceof TypeError) {
+      throw new AIServiceError(`Network error: ${error.message}`, { kind: 'network' });
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,94 @@
+// What the writer does with AI suggestions. Every accept and reject is stored in
+// suggestion_feedback, and the recent history is boiled down to the themes the
+// writer keeps rejecting. Those themes are left out of the suggestion prompt
+// and filtered from results in the browser. Shared by the browser and the
+// `suggest` Edge Function.
+
+export type SuggestionOutcome = 'accepted' | 'rejected';
+
+// The parts of a suggestion_feedback row the profile is built from
+export interface SuggestionDecision {
+  theme: string;
+  outcome: SuggestionOutcome;
+}
+
+export interface ThemeFeedback {
+  theme: string;
+  accepted: number;
+  rejected: number;
+}
+
+export interface FeedbackProfile {
+  // Most decided-on first
+  themes: ThemeFeedback[];
+  // Themes the writer rejects often enough to stop suggesting
+  avoidedThemes: string[];
+}
+
+// How many of the most recent decisions the profile is built from, so old
+// habits fade as the writer's taste changes
+export const FEEDBACK_HISTORY_LIMIT = 200;
+// A theme needs this many decisions before it can be avoided
+const MIN_THEME_DECISIONS = 5;
+// Share of rejections at which a theme is avoided
+const AVOID_REJECTION_RATE = 0.8;
+
+// How each theme (see categorizeSuggestionTheme) reads in the prompt
+const THEME_DESCRIPTIONS: Record<string, string> = {
+  grammar: 'grammar and punctuation fixes',
+  clarity: 'rewrites for clarity',
+  conciseness: 'cuts for conciseness',
+  style: 'changes to style, tone or voice',
+  'word-choice': 'word choice swaps',
+  structure: 'restructured sentences and transitions',
+  general: 'general rewrites',
+};
+
+export const EMPTY_FEEDBACK_PROFILE: FeedbackProfile = { themes: [], avoidedThemes: [] };
+
+// Rows come from the database, so anything malformed is skipped
+export const buildFeedbackProfile = (decisions: unknown): FeedbackProfile => {
+  if (!Array.isArray(decisions)) {
+    return EMPTY_FEEDBACK_PROFILE;
+  }
+
+  const counts = new Map<string, ThemeFeedback>();
+  decisions
+    .slice(0, FEEDBACK_HISTORY_LIMIT)
+    .filter((item): item is SuggestionDecision =>
+      !!item && typeof item.theme === 'string' && (item.outcome === 'accepted' || item.outcome === 'rejected')
+    )
+    .forEach(({ theme, outcome }) => {
+      const entry = counts.get(theme) ?? { theme, accepted: 0, rejected: 0 };
+      entry[outcome] += 1;
+      counts.set(theme, entry);
+    });
+
+  const themes = [...counts.values()].sort((a, b) => (b.accepted + b.rejected) - (a.accepted + a.rejected));
+  const avoidedThemes = themes
+    .filter(({ accepted, rejected }) => {
+      const total = accepted + rejected;
+      return total >= MIN_THEME_DECISIONS && rejected / total >= AVOID_REJECTION_RATE;
+    })
+    .map(({ theme }) => theme)
+    .sort();
+
+  return { themes, avoidedThemes };
+};
+
+// One line per avoided theme, with how often it was rejected
+export const formatFeedbackProfileForPrompt = (profile: FeedbackProfile): string =>
+  profile.avoidedThemes
+    .map(theme => {
+      const entry = profile.themes.find(item => item.theme === theme);
+      const description = THEME_DESCRIPTIONS[theme] ?? theme;
+      return entry
+        ? `- ${description} (rejected ${entry.rejected} of ${entry.accepted + entry.rejected})`
+        : `- ${description}`;
+    })
+    .join('\n');
+
+// Stable text for the avoided themes, '' when there are none. Part of the
+// suggestion cache key, so results are refetched once the profile changes.
+export const feedbackProfileKey = (profile: FeedbackProfile): string =>
+  profile.avoidedThemes.length > 0 ? `avoid=${profile.avoidedThemes.join(',')}` : '';
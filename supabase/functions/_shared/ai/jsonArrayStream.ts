@@ -0,0 +1,81 @@
+// Incrementally parses a streamed JSON array of objects, e.g. `[{"a": 1}, {"a": 2}]`,
+// returning each element as soon as its closing brace arrives. Anything before the
+// first `[` (stray prose, a ```json fence) is skipped, and so is anything after the
+// array closes.
+export class JsonArrayStreamParser {
+  private buffer = '';
+  private cursor = 0;
+  private arrayStarted = false;
+  private arrayClosed = false;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private elementStart = -1;
+
+  push(chunk: string): unknown[] {
+    const completed: unknown[] = [];
+    if (this.arrayClosed) {
+      return completed;
+    }
+
+    this.buffer += chunk;
+
+    for (; this.cursor < this.buffer.length; this.cursor++) {
+      const char = this.buffer[this.cursor];
+
+      if (!this.arrayStarted) {
+        if (char === '[') {
+          this.arrayStarted = true;
+        }
+        continue;
+      }
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === '{' || char === '[') {
+        if (this.depth === 0 && char === '{') {
+          this.elementStart = this.cursor;
+        }
+        this.depth++;
+      } else if (char === '}' || char === ']') {
+        if (this.depth === 0) {
+          // Closing bracket of the top-level array
+          this.arrayClosed = true;
+          break;
+        }
+
+        this.depth--;
+        if (this.depth === 0 && this.elementStart !== -1) {
+          const element = this.buffer.slice(this.elementStart, this.cursor + 1);
+          this.elementStart = -1;
+          try {
+            completed.push(JSON.parse(element));
+          } catch (error) {
+            console.warn('Skipping malformed streamed element');
+          }
+        }
+      }
+    }
+
+    // Drop what has been consumed so the buffer only holds the element in progress
+    const keepFrom = this.elementStart !== -1 ? this.elementStart : this.cursor;
+    this.buffer = this.buffer.slice(keepFrom);
+    this.cursor -= keepFrom;
+    if (this.elementStart !== -1) {
+      this.elementStart = 0;
+    }
+
+    return completed;
+  }
+}
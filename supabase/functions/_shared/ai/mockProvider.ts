@@ -0,0 +1,190 @@
+// Offline stand-in for the `suggest` Edge Function. Suggestions come from a
+// fixed set of text rules, so the same content always produces the same
+// suggestions, and requests can be slowed down or made to fail on purpose.
+// Used for demos and for exercising positioning, diffing and accept/reject
+// without network access or an API key.
+import { AIServiceError, type AIErrorKind } from './errors.ts';
+import type { ParsedSuggestion } from './suggestionSchema.ts';
+import type { SuggestionType } from './suggestionEngine.ts';
+
+export interface MockProviderOptions {
+  // Delay before the first suggestion; later ones follow at a quarter of it
+  latencyMs: number;
+  // Every Nth request fails with `failureKind`; 0 never fails
+  failEvery: number;
+  failureKind: AIErrorKind;
+}
+
+export const DEFAULT_MOCK_OPTIONS: MockProviderOptions = {
+  latencyMs: 400,
+  failEvery: 0,
+  failureKind: 'server',
+};
+
+interface MockRequest {
+  content: string;
+  suggestionType?: SuggestionType;
+  onSuggestion?: (suggestion: ParsedSuggestion) => void;
+  signal?: AbortSignal;
+}
+
+interface MockRule {
+  pattern: RegExp;
+  // Capture group holding the text to replace; defaults to the whole match
+  group?: number;
+  replace: (match: RegExpExecArray) => string;
+  alternatives?: (match: RegExpExecArray) => string[];
+  explanation: string;
+  types: SuggestionType[];
+}
+
+const MAX_MOCK_SUGGESTIONS = 5;
+
+const ALL_TYPES: SuggestionType[] = ['general', 'conciseness', 'clarity', 'engagement', 'expand', 'rephrase_alternatives'];
+
+// Replacements, best first
+const WORDY_PHRASES: Record<string, string[]> = {
+  'in order to': ['to'],
+  'due to the fact that': ['because', 'since', 'as'],
+  'at this point in time': ['now', 'currently', 'at present'],
+  'a lot of': ['many', 'much', 'plenty of'],
+  'is able to': ['can'],
+  'utilize': ['use', 'employ'],
+  'facilitate': ['help', 'ease', 'enable'],
+  'commence': ['begin', 'start'],
+};
+
+const matchCase = (replacement: string, original: string) =>
+  /^[A-Z]/.test(original) ? replacement.charAt(0).toUpperCase() + replacement.slice(1) : replacement;
+
+const MOCK_RULES: MockRule[] = [
+  {
+    pattern: /\b(\w+)\s+\1\b/gi,
+    replace: match => match[1],
+    explanation: 'Repeated word.',
+    types: ALL_TYPES,
+  },
+  {
+    pattern: new RegExp(`\\b(${Object.keys(WORDY_PHRASES).join('|')})\\b`, 'gi'),
+    replace: match => matchCase(WORDY_PHRASES[match[1].toLowerCase()][0], match[1]),
+    alternatives: match => WORDY_PHRASES[match[1].toLowerCase()].slice(1).map(phrase => matchCase(phrase, match[1])),
+    explanation: 'A shorter word says the same thing.',
+    types: ['general', 'conciseness', 'clarity'],
+  },
+  {
+    pattern: /\b(very|really|extremely)\s+(\w+)/gi,
+    replace: match => matchCase(match[2], match[1]),
+    explanation: 'Vague intensifier; the sentence is stronger without it.',
+    types: ['general', 'conciseness', 'engagement'],
+  },
+  {
+    pattern: /(?:^|[.!?]\s+|\n\s*)([a-z]\w*(?:\s+\w+){0,2})/g,
+    group: 1,
+    replace: match => match[1].charAt(0).toUpperCase() + match[1].slice(1),
+    explanation: 'Sentences should start with a capital letter.',
+    types: ALL_TYPES,
+  },
+  {
+    pattern: /\bi\s+\w+/g,
+    replace: match => 'I' + match[0].slice(1),
+    explanation: 'The pronoun "I" is always capitalized.',
+    types: ALL_TYPES,
+  },
+  {
+    pattern: /\w+ {2,}\w+/g,
+    replace: match => match[0].replace(/ {2,}/g, ' '),
+    explanation: 'Extra spaces between words.',
+    types: ['general', 'clarity'],
+  },
+];
+
+// Rule-derived suggestions for `content`, in document order
+export const generateMockSuggestions = (
+  content: string,
+  suggestionType: SuggestionType = 'general'
+): ParsedSuggestion[] => {
+  const found: (ParsedSuggestion & { index: number })[] = [];
+
+  MOCK_RULES.filter(rule => rule.types.includes(suggestionType)).forEach(rule => {
+    const pattern = new RegExp(rule.pattern.source, rule.pattern.flags);
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(content)) !== null) {
+      const originalText = match[rule.group ?? 0];
+      const suggestedText = rule.replace(match);
+      if (suggestedText !== originalText) {
+        const alternatives = rule.alternatives?.(match) ?? [];
+        found.push({
+          originalText,
+          suggestedText,
+          explanation: rule.explanation,
+          ...(alternatives.length > 0 ? { alternatives } : {}),
+          index: match.index + match[0].length - originalText.length,
+        });
+      }
+    }
+  });
+
+  // Overlapping matches would fight over the same text; keep the earliest
+  const suggestions: ParsedSuggestion[] = [];
+  let covered = -1;
+  found
+    .sort((a, b) => a.index - b.index)
+    .forEach(({ index, ...suggestion }) => {
+      if (index >= covered && !suggestions.some(s => s.originalText === suggestion.originalText)) {
+        suggestions.push(suggestion);
+        covered = index + suggestion.originalText.length;
+      }
+    });
+
+  return suggestions.slice(0, MAX_MOCK_SUGGESTIONS);
+};
+
+const cancelledError = () => new AIServiceError('Request was cancelled', { kind: 'cancelled' });
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelledError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export class MockSuggestionProvider {
+  private requestCount = 0;
+
+  constructor(private options: MockProviderOptions = DEFAULT_MOCK_OPTIONS) {}
+
+  async suggest({ content, suggestionType, onSuggestion, signal }: MockRequest): Promise<ParsedSuggestion[]> {
+    this.requestCount++;
+    const { latencyMs, failEvery, failureKind } = this.options;
+
+    await delay(latencyMs, signal);
+
+    if (failEvery > 0 && this.requestCount % failEvery === 0) {
+      throw new AIServiceError(`Mock provider failure (${failureKind}) on request #${this.requestCount}`, {
+        kind: failureKind,
+        retryAfterMs: failureKind === 'rate-limit' ? latencyMs * 5 : undefined,
+      });
+    }
+
+    const suggestions = generateMockSuggestions(content, suggestionType);
+    for (const [index, suggestion] of suggestions.entries()) {
+      if (index > 0) {
+        await delay(latencyMs / 4, signal);
+      }
+      onSuggestion?.(suggestion);
+    }
+
+    return suggestions;
+  }
+}
@@ -0,0 +1,40 @@
+// Estimated cost of a request from its token counts. Prices are list prices in
+// USD per million tokens and only need updating when providers change them;
+// recorded costs are estimates, not what the provider billed.
+import type { AIProviderId, TokenUsage } from './providers.ts';
+
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Matched by prefix, so more specific names must come first
+const MODEL_PRICES: [string, ModelPrice][] = [
+  ['gpt-4o-mini', { input: 0.15, output: 0.6 }],
+  ['gpt-4o', { input: 2.5, output: 10 }],
+  ['gpt-4.1-nano', { input: 0.1, output: 0.4 }],
+  ['gpt-4.1-mini', { input: 0.4, output: 1.6 }],
+  ['gpt-4.1', { input: 2, output: 8 }],
+  ['gpt-4-turbo', { input: 10, output: 30 }],
+  ['gpt-4', { input: 30, output: 60 }],
+  ['gpt-3.5-turbo', { input: 0.5, output: 1.5 }],
+  ['claude-3-5-haiku', { input: 0.8, output: 4 }],
+  ['claude-3-haiku', { input: 0.25, output: 1.25 }],
+  ['claude-3-5-sonnet', { input: 3, output: 15 }],
+  ['claude-3-7-sonnet', { input: 3, output: 15 }],
+  ['claude-3-opus', { input: 15, output: 75 }],
+];
+
+// Returns null when the model's price isn't known. Self-hosted models are free.
+export const estimateCost = (provider: AIProviderId, model: string, usage: TokenUsage): number | null => {
+  if (provider === 'openai-compatible') {
+    return 0;
+  }
+
+  const price = MODEL_PRICES.find(([prefix]) => model.startsWith(prefix))?.[1];
+  if (!price) {
+    return null;
+  }
+
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+};
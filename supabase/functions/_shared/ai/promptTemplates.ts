@@ -0,0 +1,100 @@
+// User-authored system prompts and house style rules, stored in user_settings.
+// A template replaces the engine's built-in instructions; the JSON format
+// requirements are always appended so responses can still be parsed. Shared
+// by the browser (for the Settings preview) and the `suggest` Edge Function.
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  body: string;
+}
+
+export interface PromptTemplateVariables {
+  title: string;
+  targetSuggestions: string;
+  brief: string;
+}
+
+export const PROMPT_TEMPLATE_VARIABLES: { name: keyof PromptTemplateVariables; description: string }[] = [
+  { name: 'title', description: 'The document title' },
+  { name: 'targetSuggestions', description: 'How many suggestions to ask for, e.g. "4" or "up to 6"' },
+  { name: 'brief', description: "The document's writing brief, one line per field" },
+];
+
+export const MAX_PROMPT_TEMPLATES = 20;
+export const MAX_TEMPLATE_NAME_LENGTH = 80;
+export const MAX_TEMPLATE_LENGTH = 8000;
+export const MAX_STYLE_RULES = 30;
+export const MAX_STYLE_RULE_LENGTH = 200;
+
+// Starting point for a new template, close to the built-in prompt
+export const STARTER_TEMPLATE_BODY = `You are an editor for our team. Review the document titled "{{title}}" and provide {{targetSuggestions}} specific suggestions spread across the whole text.
+
+WHAT THE DOCUMENT IS FOR:
+{{brief}}
+
+REQUIREMENTS:
+- Read the complete text before suggesting anything
+- Each suggestion must target a different sentence or phrase
+- Keep the writer's voice; change only what makes the text better`;
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+const isTemplateVariable = (name: string): name is keyof PromptTemplateVariables =>
+  PROMPT_TEMPLATE_VARIABLES.some(variable => variable.name === name);
+
+// Unknown variables are left as written, so a typo shows up in the preview
+export const renderPromptTemplate = (body: string, variables: PromptTemplateVariables): string =>
+  body.replace(VARIABLE_PATTERN, (match, name: string) => (isTemplateVariable(name) ? variables[name] : match));
+
+export const findUnknownVariables = (body: string): string[] => {
+  const unknown = new Set<string>();
+  for (const [, name] of body.matchAll(VARIABLE_PATTERN)) {
+    if (!isTemplateVariable(name)) {
+      unknown.add(name);
+    }
+  }
+  return [...unknown];
+};
+
+export const usesTemplateVariable = (body: string, name: keyof PromptTemplateVariables): boolean =>
+  [...body.matchAll(VARIABLE_PATTERN)].some(([, variable]) => variable === name);
+
+// Settings are user-editable JSON, so anything malformed is dropped and
+// lengths are capped before they reach a prompt
+export const normalizePromptTemplates = (value: unknown): PromptTemplate[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+    .filter(item => typeof item.id === 'string' && typeof item.body === 'string' && item.body.trim() !== '')
+    .slice(0, MAX_PROMPT_TEMPLATES)
+    .map(item => ({
+      id: item.id as string,
+      name: (typeof item.name === 'string' && item.name.trim() ? item.name.trim() : 'Untitled template').slice(0, MAX_TEMPLATE_NAME_LENGTH),
+      body: (item.body as string).slice(0, MAX_TEMPLATE_LENGTH),
+    }));
+};
+
+export const normalizeStyleRules = (value: unknown): string[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .filter((rule): rule is string => typeof rule === 'string' && rule.trim() !== '')
+    .map(rule => rule.trim().slice(0, MAX_STYLE_RULE_LENGTH))
+    .slice(0, MAX_STYLE_RULES);
+};
+
+export const getActivePromptTemplate = (
+  templates: PromptTemplate[],
+  activeId: string | null | undefined
+): PromptTemplate | undefined => templates.find(template => template.id === activeId);
+
+// Stable text for the active template and style rules, '' with the built-in
+// prompt and no rules. Part of the suggestion cache key.
+export const promptSettingsKey = (template: PromptTemplate | undefined, styleRules: string[]): string =>
+  [template?.body ?? '', ...styleRules].filter(Boolean).join('\n');
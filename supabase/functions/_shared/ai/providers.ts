@@ -0,0 +1,399 @@
+import { readServerSentEvents } from './sse.ts';
+import { AIServiceError, errorKindForStatus, parseRetryAfter, withNetworkErrors, type AIErrorKind } from './errors.ts';
+
+export type AIProviderId = 'openai' | 'anthropic' | 'openai-compatible';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ProviderConfig {
+  provider: AIProviderId;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+export interface StructuredOutputSpec {
+  name: string;
+  description: string;
+  schema: Record<string, unknown>;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface CompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+  // Ask the provider to return JSON matching this schema. Providers use tool
+  // calling or a JSON schema response format, and the resolved text is the
+  // JSON document itself.
+  structuredOutput?: StructuredOutputSpec;
+  // Aborts the request, e.g. when the caller's own request was cancelled
+  signal?: AbortSignal;
+  // Called with the token counts the provider reported, if it reported any
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface LLMProvider {
+  id: AIProviderId;
+  label: string;
+  defaultBaseUrl: string;
+  requiresApiKey: boolean;
+  defaultModel: string;
+  // Cheaper model used once the user's monthly budget is nearly spent (see budget.ts)
+  economyModel?: string;
+  // Suggested models for the settings picker; empty means free-form entry
+  models: string[];
+  // Resolves with the full response text. When onDelta is given the response is
+  // streamed and each text fragment is reported as soon as it arrives.
+  complete: (
+    messages: ChatMessage[],
+    config: ProviderConfig,
+    options: CompletionOptions,
+    onDelta?: (text: string) => void
+  ) => Promise<string>;
+}
+
+const trimTrailingSlash = (url: string) => url.replace(/\/+$/, '');
+
+const reportUsage = (options: CompletionOptions, promptTokens?: number, completionTokens?: number) => {
+  if (promptTokens !== undefined || completionTokens !== undefined) {
+    options.onUsage?.({ promptTokens: promptTokens ?? 0, completionTokens: completionTokens ?? 0 });
+  }
+};
+
+const readErrorMessage = async (response: Response): Promise<string> => {
+  const errorData = await response.json().catch(() => ({}));
+  return errorData.error?.message || '';
+};
+
+const providerHttpError = async (label: string, response: Response): Promise<AIServiceError> => {
+  const message = await readErrorMessage(response);
+  return new AIServiceError(`${label} API error: ${response.status} ${response.statusText}. ${message}`, {
+    kind: errorKindForStatus(response.status, message),
+    status: response.status,
+    retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+  });
+};
+
+interface ToolCallFragment {
+  function?: {
+    arguments?: string;
+  };
+}
+
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface ChatCompletionResponse {
+  usage?: ChatCompletionUsage;
+  choices: {
+    message: {
+      content: string | null;
+      tool_calls?: ToolCallFragment[];
+    };
+  }[];
+}
+
+interface ChatCompletionChunk {
+  // Only on the final chunk, and only when requested with stream_options
+  usage?: ChatCompletionUsage | null;
+  choices?: {
+    delta?: {
+      content?: string | null;
+      tool_calls?: ToolCallFragment[];
+    };
+  }[];
+}
+
+// How structured output is requested from a chat completions server:
+// 'tool' forces a function call (OpenAI), 'response_format' asks for a JSON
+// schema constrained reply (Ollama, llama.cpp and most local servers)
+type StructuredOutputMode = 'tool' | 'response_format';
+
+// OpenAI only accepts strict function schemas on newer models
+const supportsStrictSchemas = (model: string) => /^(gpt-4o|gpt-4\.1|gpt-5|o\d)/.test(model);
+
+const structuredOutputParams = (
+  mode: StructuredOutputMode,
+  spec: StructuredOutputSpec,
+  model: string
+): Record<string, unknown> => {
+  if (mode === 'tool') {
+    return {
+      tools: [{
+        type: 'function',
+        function: {
+          name: spec.name,
+          description: spec.description,
+          parameters: spec.schema,
+          ...(supportsStrictSchemas(model) ? { strict: true } : {}),
+        },
+      }],
+      tool_choice: { type: 'function', function: { name: spec.name } },
+    };
+  }
+
+  return {
+    response_format: {
+      type: 'json_schema',
+      json_schema: {
+        name: spec.name,
+        schema: spec.schema,
+        strict: true,
+      },
+    },
+  };
+};
+
+// Shared by OpenAI and any server that speaks the OpenAI chat completions API
+// (Ollama, llama.cpp, LM Studio, vLLM, ...)
+const chatCompletions = async (
+  label: string,
+  baseUrl: string,
+  structuredOutputMode: StructuredOutputMode,
+  messages: ChatMessage[],
+  config: ProviderConfig,
+  options: CompletionOptions,
+  onDelta?: (text: string) => void
+): Promise<string> => {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (config.apiKey && config.apiKey.trim()) {
+    headers['Authorization'] = `Bearer ${config.apiKey}`;
+  }
+
+  const response = await withNetworkErrors(fetch(`${trimTrailingSlash(baseUrl)}/chat/completions`, {
+    method: 'POST',
+    headers,
+    signal: options.signal,
+    body: JSON.stringify({
+      model: config.model,
+      messages,
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      stream: !!onDelta,
+      ...(onDelta ? { stream_options: { include_usage: true } } : {}),
+      ...(options.structuredOutput
+        ? structuredOutputParams(structuredOutputMode, options.structuredOutput, config.model)
+        : {}),
+    }),
+  }));
+
+  if (!response.ok) {
+    throw await providerHttpError(label, response);
+  }
+
+  if (onDelta) {
+    let text = '';
+    await readServerSentEvents(response, (data) => {
+      if (data === '[DONE]') return;
+      const chunk: ChatCompletionChunk = JSON.parse(data);
+      if (chunk.usage) {
+        reportUsage(options, chunk.usage.prompt_tokens, chunk.usage.completion_tokens);
+      }
+      const choiceDelta = chunk.choices?.[0]?.delta;
+      const delta = choiceDelta?.tool_calls?.[0]?.function?.arguments || choiceDelta?.content;
+      if (delta) {
+        text += delta;
+        onDelta(delta);
+      }
+    });
+    return text;
+  }
+
+  const data: ChatCompletionResponse = await response.json();
+  reportUsage(options, data.usage?.prompt_tokens, data.usage?.completion_tokens);
+
+  if (!data.choices || data.choices.length === 0) {
+    throw new Error(`No response from ${label} API`);
+  }
+
+  const message = data.choices[0].message;
+  const toolArguments = message.tool_calls?.[0]?.function?.arguments;
+  return toolArguments || message.content || '';
+};
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+interface AnthropicMessagesResponse {
+  usage?: AnthropicUsage;
+  content: {
+    type: string;
+    text?: string;
+    input?: unknown;
+  }[];
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  // message_start carries the input token count, message_delta the output count
+  message?: {
+    usage?: AnthropicUsage;
+  };
+  usage?: AnthropicUsage;
+  delta?: {
+    type: string;
+    text?: string;
+    partial_json?: string;
+  };
+  error?: {
+    type?: string;
+    message?: string;
+  };
+}
+
+// Errors that arrive mid-stream carry a type instead of an HTTP status
+const ANTHROPIC_STREAM_ERROR_KINDS: Record<string, AIErrorKind> = {
+  authentication_error: 'auth',
+  permission_error: 'auth',
+  rate_limit_error: 'rate-limit',
+  overloaded_error: 'server',
+  api_error: 'server',
+};
+
+const openAIProvider: LLMProvider = {
+  id: 'openai',
+  label: 'OpenAI',
+  defaultBaseUrl: 'https://api.openai.com/v1',
+  requiresApiKey: true,
+  defaultModel: 'gpt-3.5-turbo',
+  economyModel: 'gpt-4o-mini',
+  models: ['gpt-3.5-turbo', 'gpt-4', 'gpt-4o-mini', 'gpt-4o'],
+  complete: (messages, config, options, onDelta) =>
+    chatCompletions('OpenAI', config.baseUrl || openAIProvider.defaultBaseUrl, 'tool', messages, config, options, onDelta),
+};
+
+const anthropicProvider: LLMProvider = {
+  id: 'anthropic',
+  label: 'Anthropic',
+  defaultBaseUrl: 'https://api.anthropic.com/v1',
+  requiresApiKey: true,
+  defaultModel: 'claude-3-5-haiku-latest',
+  economyModel: 'claude-3-5-haiku-latest',
+  models: ['claude-3-5-haiku-latest', 'claude-3-5-sonnet-latest', 'claude-3-7-sonnet-latest'],
+  complete: async (messages, config, options, onDelta) => {
+    // The Messages API takes the system prompt as a top-level field
+    const system = messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+    const conversation = messages.filter(message => message.role !== 'system');
+
+    const response = await withNetworkErrors(fetch(`${trimTrailingSlash(config.baseUrl || anthropicProvider.defaultBaseUrl)}/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': config.apiKey || '',
+        'anthropic-version': '2023-06-01',
+      },
+      signal: options.signal,
+      body: JSON.stringify({
+        model: config.model,
+        system: system || undefined,
+        messages: conversation,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens ?? 1024,
+        stream: !!onDelta,
+        ...(options.structuredOutput ? {
+          tools: [{
+            name: options.structuredOutput.name,
+            description: options.structuredOutput.description,
+            input_schema: options.structuredOutput.schema,
+          }],
+          tool_choice: { type: 'tool', name: options.structuredOutput.name },
+        } : {}),
+      }),
+    }));
+
+    if (!response.ok) {
+      throw await providerHttpError('Anthropic', response);
+    }
+
+    if (onDelta) {
+      let text = '';
+      let inputTokens: number | undefined;
+      let outputTokens: number | undefined;
+      await readServerSentEvents(response, (data) => {
+        const event: AnthropicStreamEvent = JSON.parse(data);
+        if (event.type === 'message_start') {
+          inputTokens = event.message?.usage?.input_tokens;
+        } else if (event.type === 'message_delta') {
+          outputTokens = event.usage?.output_tokens ?? outputTokens;
+        }
+        if (event.type === 'error') {
+          const message = event.error?.message || 'stream interrupted';
+          throw new AIServiceError(`Anthropic API error: ${message}`, {
+            kind: ANTHROPIC_STREAM_ERROR_KINDS[event.error?.type || ''] || 'unknown',
+          });
+        }
+        if (event.type !== 'content_block_delta' || !event.delta) return;
+        const delta = event.delta.type === 'input_json_delta' ? event.delta.partial_json : event.delta.text;
+        if (delta) {
+          text += delta;
+          onDelta(delta);
+        }
+      });
+      reportUsage(options, inputTokens, outputTokens);
+      return text;
+    }
+
+    const data: AnthropicMessagesResponse = await response.json();
+    reportUsage(options, data.usage?.input_tokens, data.usage?.output_tokens);
+    const toolUse = (data.content || []).find(block => block.type === 'tool_use');
+    if (toolUse) {
+      return JSON.stringify(toolUse.input);
+    }
+
+    const text = (data.content || [])
+      .filter(block => block.type === 'text' && block.text)
+      .map(block => block.text)
+      .join('');
+
+    if (!text) {
+      throw new Error('No response from Anthropic API');
+    }
+
+    return text;
+  },
+};
+
+const openAICompatibleProvider: LLMProvider = {
+  id: 'openai-compatible',
+  label: 'OpenAI-compatible (local or self-hosted)',
+  defaultBaseUrl: 'http://localhost:11434/v1',
+  requiresApiKey: false,
+  defaultModel: 'llama3.1',
+  models: [],
+  complete: (messages, config, options, onDelta) =>
+    chatCompletions('OpenAI-compatible', config.baseUrl || openAICompatibleProvider.defaultBaseUrl, 'response_format', messages, config, options, onDelta),
+};
+
+export const AI_PROVIDERS: Record<AIProviderId, LLMProvider> = {
+  'openai': openAIProvider,
+  'anthropic': anthropicProvider,
+  'openai-compatible': openAICompatibleProvider,
+};
+
+export const DEFAULT_AI_PROVIDER: AIProviderId = 'openai';
+
+export const getProvider = (id?: string | null): LLMProvider => {
+  return AI_PROVIDERS[id as AIProviderId] || AI_PROVIDERS[DEFAULT_AI_PROVIDER];
+};
+
+// A provider is usable when it either needs no key or has one configured
+export const isProviderConfigured = (config: { provider?: string | null; hasApiKey: boolean }): boolean => {
+  const provider = getProvider(config.provider);
+  return !provider.requiresApiKey || config.hasApiKey;
+};
@@ -0,0 +1,36 @@
+import { withNetworkErrors } from './errors.ts';
+
+// Reads a text/event-stream body and hands each `data:` payload to onData
+export const readServerSentEvents = async (response: Response, onData: (data: string) => void) => {
+  if (!response.body) {
+    throw new Error('Streaming response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const flushLine = (line: string) => {
+    const trimmed = line.replace(/\r$/, '');
+    if (trimmed.startsWith('data:')) {
+      onData(trimmed.slice(5).trimStart());
+    }
+  };
+
+  while (true) {
+    const { done, value } = await withNetworkErrors(reader.read());
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newlineIndex: number;
+    while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+      flushLine(buffer.slice(0, newlineIndex));
+      buffer = buffer.slice(newlineIndex + 1);
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer) {
+    flushLine(buffer);
+  }
+};
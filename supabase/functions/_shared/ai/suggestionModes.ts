@@ -0,0 +1,25 @@
+// Suggestion modes writers can pick in the editor. 'auto' picks a suggestion
+// type from the content (see useAISuggestions); the others map directly to a
+// SuggestionType.
+import type { SuggestionType } from './suggestionEngine.ts';
+
+export type SuggestionMode = 'auto' | SuggestionType;
+
+export interface SuggestionModeOption {
+  value: SuggestionMode;
+  label: string;
+  description: string;
+}
+
+export const SUGGESTION_MODES: SuggestionModeOption[] = [
+  { value: 'auto', label: 'Auto', description: 'Picks a focus based on the length of your text' },
+  { value: 'general', label: 'General', description: 'Grammar, clarity, word choice and flow' },
+  { value: 'clarity', label: 'Clarity', description: 'Untangles confusing sentences' },
+  { value: 'conciseness', label: 'Conciseness', description: 'Cuts wordiness and repetition' },
+  { value: 'engagement', label: 'Engagement', description: 'Makes the text livelier' },
+  { value: 'expand', label: 'Expand', description: 'Develops ideas that need more detail' },
+  { value: 'rephrase_alternatives', label: 'Rephrase', description: 'Offers other ways to say key sentences' },
+];
+
+export const getSuggestionModeLabel = (mode: SuggestionMode): string =>
+  SUGGESTION_MODES.find(option => option.value === mode)?.label ?? mode;
@@ -0,0 +1,161 @@
+export interface ParsedSuggestion {
+  originalText: string;
+  suggestedText: string;
+  explanation: string;
+  // Other rewrites of originalText, best first, after suggestedText
+  alternatives?: string[];
+}
+
+// suggestedText plus at most this many alternatives are shown to the writer
+export const MAX_ALTERNATIVES = 3;
+
+export interface SuggestionRejection {
+  index: number;
+  item: unknown;
+  reasons: string[];
+}
+
+export interface SuggestionValidationResult {
+  valid: ParsedSuggestion[];
+  rejected: SuggestionRejection[];
+}
+
+export interface ValidationOptions {
+  // 'expand' suggestions may legitimately keep the original text intact
+  allowUnchangedText?: boolean;
+}
+
+// Passed to providers that support structured output (tool calling or a JSON
+// schema response format). Every property is required and no extras are
+// allowed so the schema also works in OpenAI's strict mode.
+export const SUGGESTIONS_SCHEMA_NAME = 'submit_suggestions';
+
+export const SUGGESTIONS_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    suggestions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          originalText: {
+            type: 'string',
+            description: 'Exact text copied verbatim from the document',
+          },
+          suggestedText: {
+            type: 'string',
+            description: 'Improved replacement for originalText',
+          },
+          explanation: {
+            type: 'string',
+            description: 'Brief reason for the change',
+          },
+          alternatives: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Other rewrites of originalText, best first; may be empty',
+          },
+        },
+        required: ['originalText', 'suggestedText', 'explanation', 'alternatives'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['suggestions'],
+  additionalProperties: false,
+} as const;
+
+// Alternatives are optional: anything unusable is dropped rather than
+// rejecting the whole suggestion
+const parseAlternatives = (value: unknown, originalText: string, suggestedText: string): string[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const seen = new Set([originalText.trim(), suggestedText.trim()]);
+  const alternatives: string[] = [];
+  value.forEach(alternative => {
+    if (typeof alternative !== 'string' || !alternative.trim() || seen.has(alternative.trim())) {
+      return;
+    }
+    seen.add(alternative.trim());
+    alternatives.push(alternative);
+  });
+
+  return alternatives.slice(0, MAX_ALTERNATIVES);
+};
+
+const REQUIRED_FIELDS: (keyof ParsedSuggestion)[] = ['originalText', 'suggestedText', 'explanation'];
+
+export const validateSuggestion = (
+  item: unknown,
+  options: ValidationOptions = {}
+): { suggestion?: ParsedSuggestion; reasons: string[] } => {
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    return { reasons: ['not an object'] };
+  }
+
+  const record = item as Record<string, unknown>;
+  const reasons: string[] = [];
+
+  REQUIRED_FIELDS.forEach(field => {
+    const value = record[field];
+    if (value === undefined || value === null) {
+      reasons.push(`missing "${field}"`);
+    } else if (typeof value !== 'string') {
+      reasons.push(`"${field}" must be a string, got ${typeof value}`);
+    } else if (!value.trim()) {
+      reasons.push(`"${field}" is empty`);
+    }
+  });
+
+  if (reasons.length > 0) {
+    return { reasons };
+  }
+
+  const suggestion: ParsedSuggestion = {
+    originalText: record.originalText as string,
+    suggestedText: record.suggestedText as string,
+    explanation: (record.explanation as string).trim(),
+  };
+
+  const alternatives = parseAlternatives(record.alternatives, suggestion.originalText, suggestion.suggestedText);
+  if (alternatives.length > 0) {
+    suggestion.alternatives = alternatives;
+  }
+
+  if (!options.allowUnchangedText && suggestion.originalText.trim() === suggestion.suggestedText.trim()) {
+    return { reasons: ['suggestedText is identical to originalText'] };
+  }
+
+  return { suggestion, reasons };
+};
+
+export const validateSuggestions = (
+  items: unknown[],
+  options: ValidationOptions = {}
+): SuggestionValidationResult => {
+  const result: SuggestionValidationResult = { valid: [], rejected: [] };
+
+  items.forEach((item, index) => {
+    const { suggestion, reasons } = validateSuggestion(item, options);
+    if (suggestion) {
+      result.valid.push(suggestion);
+    } else {
+      result.rejected.push({ index, item, reasons });
+    }
+  });
+
+  return result;
+};
+
+// Accepts both the structured `{ "suggestions": [...] }` shape and a bare array
+export const extractSuggestionItems = (payload: unknown): unknown[] | null => {
+  if (Array.isArray(payload)) {
+    return payload;
+  }
+  if (payload && typeof payload === 'object' && Array.isArray((payload as { suggestions?: unknown }).suggestions)) {
+    return (payload as { suggestions: unknown[] }).suggestions;
+  }
+  return null;
+};
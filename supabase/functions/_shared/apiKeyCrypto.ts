@@ -0,0 +1,79 @@
+// Envelope encryption for provider API keys stored in user_settings.
+//
+// Every key gets its own random AES-256-GCM data key. The data key is wrapped
+// with the master key from the API_KEY_ENCRYPTION_KEY secret (32 random bytes,
+// base64 encoded) and stored next to the ciphertext, so rotating the master key
+// only means re-wrapping data keys. The user id is bound as additional
+// authenticated data, which stops a ciphertext from being copied to another
+// user's row and decrypted there.
+//
+// Stored format: v1.<wrap iv>.<wrapped data key>.<iv>.<ciphertext> (base64 parts)
+const ENVELOPE_VERSION = 'v1';
+const IV_LENGTH = 12;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+let masterKeyPromise: Promise<CryptoKey> | null = null;
+
+const getMasterKey = () => {
+  if (!masterKeyPromise) {
+    const secret = Deno.env.get('API_KEY_ENCRYPTION_KEY');
+    if (!secret) {
+      throw new Error('API_KEY_ENCRYPTION_KEY is not set');
+    }
+
+    const raw = fromBase64(secret);
+    if (raw.length !== 32) {
+      throw new Error('API_KEY_ENCRYPTION_KEY must be 32 bytes, base64 encoded');
+    }
+
+    masterKeyPromise = crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']);
+  }
+  return masterKeyPromise;
+};
+
+const encrypt = async (key: CryptoKey, plaintext: Uint8Array, additionalData: Uint8Array) => {
+  const iv = randomBytes(IV_LENGTH);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData }, key, plaintext);
+  return { iv, ciphertext: new Uint8Array(ciphertext) };
+};
+
+const decrypt = async (key: CryptoKey, iv: Uint8Array, ciphertext: Uint8Array, additionalData: Uint8Array) =>
+  new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv, additionalData }, key, ciphertext));
+
+export const encryptApiKey = async (apiKey: string, userId: string): Promise<string> => {
+  const aad = encoder.encode(userId);
+  const rawDataKey = randomBytes(32);
+  const dataKey = await crypto.subtle.importKey('raw', rawDataKey, 'AES-GCM', false, ['encrypt']);
+
+  const wrapped = await encrypt(await getMasterKey(), rawDataKey, aad);
+  const sealed = await encrypt(dataKey, encoder.encode(apiKey), aad);
+
+  return [
+    ENVELOPE_VERSION,
+    toBase64(wrapped.iv),
+    toBase64(wrapped.ciphertext),
+    toBase64(sealed.iv),
+    toBase64(sealed.ciphertext),
+  ].join('.');
+};
+
+export const decryptApiKey = async (envelope: string, userId: string): Promise<string> => {
+  const [version, wrapIv, wrappedKey, iv, ciphertext] = envelope.split('.');
+  if (version !== ENVELOPE_VERSION || !ciphertext) {
+    throw new Error('Unsupported API key envelope');
+  }
+
+  const aad = encoder.encode(userId);
+  const rawDataKey = await decrypt(await getMasterKey(), fromBase64(wrapIv), fromBase64(wrappedKey), aad);
+  const dataKey = await crypto.subtle.importKey('raw', rawDataKey, 'AES-GCM', false, ['decrypt']);
+
+  return decoder.decode(await decrypt(dataKey, fromBase64(iv), fromBase64(ciphertext), aad));
+};
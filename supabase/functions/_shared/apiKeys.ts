@@ -0,0 +1,116 @@
+import { decryptApiKey, encryptApiKey } from './apiKeyCrypto.ts';
+import type { AdminClient } from './supabase.ts';
+import type { AIProviderId } from './ai/providers.ts';
+
+// Each provider has its own key, so a key is only ever sent to the provider it
+// was entered for
+export const API_KEY_COLUMNS: Record<AIProviderId, string> = {
+  'openai': 'openai_api_key_encrypted',
+  'anthropic': 'anthropic_api_key_encrypted',
+  'openai-compatible': 'openai_compatible_api_key_encrypted',
+};
+
+// Columns read from user_settings when resolving a key. Databases created
+// before encryption also have a plaintext `openai_api_key` column until
+// every row has been migrated, so rows are selected with `*`.
+export interface StoredApiKeyRow {
+  user_id: string;
+  ai_provider?: string | null;
+  openai_api_key_encrypted?: string | null;
+  anthropic_api_key_encrypted?: string | null;
+  openai_compatible_api_key_encrypted?: string | null;
+  openai_api_key?: string | null;
+}
+
+// Plaintext keys predate per-provider keys and belong to whichever provider was
+// selected. They are never moved to an OpenAI-compatible server.
+const legacyKeyColumn = (row: StoredApiKeyRow) =>
+  row.ai_provider === 'anthropic' ? API_KEY_COLUMNS.anthropic : API_KEY_COLUMNS.openai;
+
+export const saveApiKey = async (
+  supabase: AdminClient,
+  userId: string,
+  providerId: AIProviderId,
+  apiKey: string | null
+) => {
+  const encrypted = apiKey ? await encryptApiKey(apiKey, userId) : null;
+
+  const { data: existing, error: loadError } = await supabase
+    .from('user_settings')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (loadError) {
+    throw new Error(loadError.message);
+  }
+
+  const update: Record<string, string | null> = { [API_KEY_COLUMNS[providerId]]: encrypted };
+
+  // The plaintext column is cleared in the same write, or resolveApiKey would
+  // fall back to a key the user just replaced or removed. A plaintext key for
+  // another provider is encrypted into that provider's column instead.
+  const legacyRow = existing as StoredApiKeyRow | null;
+  if (legacyRow && 'openai_api_key' in legacyRow) {
+    const legacyColumn = legacyKeyColumn(legacyRow);
+    const legacyKey = legacyRow.openai_api_key?.trim();
+    if (legacyKey && legacyColumn !== API_KEY_COLUMNS[providerId] && !legacyRow[legacyColumn as keyof StoredApiKeyRow]) {
+      update[legacyColumn] = await encryptApiKey(legacyKey, userId);
+    }
+    update.openai_api_key = null;
+  }
+
+  const { error } = await supabase
+    .from('user_settings')
+    .upsert({ user_id: userId, ...update }, { onConflict: 'user_id' });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+};
+
+// Encrypts a legacy plaintext key in place and clears the plaintext column
+export const encryptLegacyApiKey = async (supabase: AdminClient, row: StoredApiKeyRow) => {
+  const apiKey = row.openai_api_key?.trim();
+  if (!apiKey) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from('user_settings')
+    .update({ [legacyKeyColumn(row)]: await encryptApiKey(apiKey, row.user_id), openai_api_key: null })
+    .eq('user_id', row.user_id);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+};
+
+// The key for `providerId`, or '' when the user hasn't entered one for it
+export const resolveApiKey = async (
+  supabase: AdminClient,
+  row: StoredApiKeyRow | null,
+  providerId: AIProviderId
+): Promise<string> => {
+  if (!row) {
+    return '';
+  }
+
+  const column = API_KEY_COLUMNS[providerId];
+  const encrypted = row[column as keyof StoredApiKeyRow];
+  if (encrypted) {
+    return decryptApiKey(encrypted, row.user_id);
+  }
+
+  const legacyKey = row.openai_api_key?.trim() || '';
+  if (legacyKey) {
+    try {
+      await encryptLegacyApiKey(supabase, row);
+      console.log('🔐 Encrypted legacy plaintext API key for user', row.user_id);
+    } catch (error) {
+      // The key is still usable for this request, so only log the failure
+      console.error('Failed to encrypt legacy API key:', error);
+    }
+  }
+  return legacyKeyColumn(row) === column ? legacyKey : '';
+};
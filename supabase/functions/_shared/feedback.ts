@@ -0,0 +1,20 @@
+import { EMPTY_FEEDBACK_PROFILE, FEEDBACK_HISTORY_LIMIT, buildFeedbackProfile, type FeedbackProfile } from './ai/feedbackProfile.ts';
+import type { AdminClient } from './supabase.ts';
+
+// The writer's preferences from their most recent accepts and rejects. Failing
+// to load them never fails the suggestion request.
+export const getFeedbackProfile = async (supabase: AdminClient, userId: string): Promise<FeedbackProfile> => {
+  const { data, error } = await supabase
+    .from('suggestion_feedback')
+    .select('theme, outcome')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(FEEDBACK_HISTORY_LIMIT);
+
+  if (error) {
+    console.error('Failed to load suggestion feedback:', error);
+    return EMPTY_FEEDBACK_PROFILE;
+  }
+
+  return buildFeedbackProfile(data);
+};
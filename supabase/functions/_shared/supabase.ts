@@ -0,0 +1,24 @@
+import { createClient, type User } from 'npm:@supabase/supabase-js@2';
+
+// Service role client: bypasses RLS, so always scope queries to the caller's user id
+export const createAdminClient = () =>
+  createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    { auth: { persistSession: false } }
+  );
+
+export type AdminClient = ReturnType<typeof createAdminClient>;
+
+export const getBearerToken = (req: Request): string | null =>
+  req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') || null;
+
+export const getUserFromRequest = async (supabase: AdminClient, req: Request): Promise<User | null> => {
+  const token = getBearerToken(req);
+  if (!token) {
+    return null;
+  }
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  return error ? null : user;
+};
@@ -0,0 +1,67 @@
+import { budgetPeriodStart } from './ai/budget.ts';
+import { estimateCost } from './ai/pricing.ts';
+import type { AIProviderId, TokenUsage } from './ai/providers.ts';
+import type { AdminClient } from './supabase.ts';
+
+export interface UsageRecord {
+  userId: string;
+  documentId: string | null;
+  provider: AIProviderId;
+  model: string;
+  suggestionType: string;
+  usage: TokenUsage;
+}
+
+// Only link usage to a document the caller owns. Anything else is recorded
+// without a document rather than rejected.
+export const resolveOwnedDocumentId = async (
+  supabase: AdminClient,
+  userId: string,
+  documentId: unknown
+): Promise<string | null> => {
+  if (typeof documentId !== 'string' || !documentId) {
+    return null;
+  }
+
+  const { data } = await supabase
+    .from('documents')
+    .select('id')
+    .eq('id', documentId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return data?.id ?? null;
+};
+
+// Failing to record usage never fails the suggestion request
+export const recordUsage = async (supabase: AdminClient, record: UsageRecord) => {
+  const { error } = await supabase.from('ai_usage').insert({
+    user_id: record.userId,
+    document_id: record.documentId,
+    provider: record.provider,
+    model: record.model,
+    suggestion_type: record.suggestionType,
+    prompt_tokens: record.usage.promptTokens,
+    completion_tokens: record.usage.completionTokens,
+    estimated_cost: estimateCost(record.provider, record.model, record.usage),
+  });
+
+  if (error) {
+    console.error('Failed to record AI usage:', error);
+  }
+};
+
+// Estimated spend since the start of the current budget period
+export const getMonthlySpend = async (supabase: AdminClient, userId: string): Promise<number> => {
+  const { data, error } = await supabase
+    .from('ai_usage_daily')
+    .select('estimated_cost')
+    .eq('user_id', userId)
+    .gte('day', budgetPeriodStart());
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return (data || []).reduce((sum, row) => sum + Number(row.estimated_cost ?? 0), 0);
+};
@@ -0,0 +1,97 @@
+// Supabase Edge Function that stores the signed-in user's API key for one provider.
+// This is the only write path for keys: the key is envelope-encrypted before
+// it reaches the database and is never returned to the client.
+//
+// Request body: { "provider": "openai", "apiKey": "sk-..." } to save the key
+// for one provider, { "provider": "openai", "apiKey": null } to remove it.
+//
+// Called with the service role key instead of a user token, the body
+// { "action": "encrypt-legacy" } encrypts every plaintext key left over from
+// before encryption was introduced.
+import { corsHeaders, jsonResponse } from '../_shared/http.ts';
+import { createAdminClient, getBearerToken, getUserFromRequest } from '../_shared/supabase.ts';
+import { encryptLegacyApiKey, saveApiKey, type StoredApiKeyRow } from '../_shared/apiKeys.ts';
+import { AI_PROVIDERS, type AIProviderId } from '../_shared/ai/providers.ts';
+
+interface ApiKeyRequestBody {
+  provider?: unknown;
+  apiKey?: unknown;
+  action?: unknown;
+}
+
+const MAX_API_KEY_LENGTH = 512;
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  let body: ApiKeyRequestBody;
+  try {
+    body = await req.json();
+  } catch (error) {
+    return jsonResponse({ error: 'Request body must be JSON' }, 400);
+  }
+
+  const supabase = createAdminClient();
+
+  if (body.action === 'encrypt-legacy') {
+    if (getBearerToken(req) !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+      return jsonResponse({ error: 'Forbidden' }, 403);
+    }
+
+    const { data: rows, error } = await supabase
+      .from('user_settings')
+      .select('user_id, ai_provider, openai_api_key')
+      .not('openai_api_key', 'is', null);
+
+    if (error) {
+      return jsonResponse({ error: `Failed to load legacy keys: ${error.message}` }, 500);
+    }
+
+    let encrypted = 0;
+    const failed: string[] = [];
+    for (const row of (rows ?? []) as StoredApiKeyRow[]) {
+      try {
+        await encryptLegacyApiKey(supabase, row);
+        encrypted++;
+      } catch (error) {
+        console.error('Failed to encrypt legacy API key for user', row.user_id, error);
+        failed.push(row.user_id);
+      }
+    }
+
+    return jsonResponse({ encrypted, failed });
+  }
+
+  const user = await getUserFromRequest(supabase, req);
+  if (!user) {
+    return jsonResponse({ error: 'You need to be signed in to update your API key' }, 401);
+  }
+
+  if (typeof body.provider !== 'string' || !Object.hasOwn(AI_PROVIDERS, body.provider)) {
+    return jsonResponse({ error: `"provider" must be one of ${Object.keys(AI_PROVIDERS).join(', ')}` }, 400);
+  }
+  const providerId = body.provider as AIProviderId;
+
+  const apiKey = typeof body.apiKey === 'string' ? body.apiKey.trim() : body.apiKey;
+  if (apiKey !== null && (typeof apiKey !== 'string' || !apiKey)) {
+    return jsonResponse({ error: '"apiKey" must be a non-empty string or null' }, 400);
+  }
+  if (typeof apiKey === 'string' && apiKey.length > MAX_API_KEY_LENGTH) {
+    return jsonResponse({ error: 'API key is too long' }, 400);
+  }
+
+  try {
+    await saveApiKey(supabase, user.id, providerId, apiKey);
+  } catch (error) {
+    console.error('Error saving API key:', error);
+    return jsonResponse({ error: 'Failed to save API key' }, 500);
+  }
+
+  return jsonResponse({ provider: providerId, hasApiKey: !!apiKey });
+});
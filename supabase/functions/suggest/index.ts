@@ -0,0 +1,229 @@
+// Supabase Edge Function that generates writing suggestions on behalf of the
+// signed-in user. The provider API key is decrypted from user_settings with
+// the service role and never leaves the server.
+//
+// Run locally with `supabase functions serve suggest --env-file .env.local`.
+import { corsHeaders, jsonResponse } from '../_shared/http.ts';
+import { createAdminClient, getBearerToken, getUserFromRequest } from '../_shared/supabase.ts';
+import { resolveApiKey } from '../_shared/apiKeys.ts';
+import { getMonthlySpend, recordUsage, resolveOwnedDocumentId } from '../_shared/usage.ts';
+import { getFeedbackProfile } from '../_shared/feedback.ts';
+import { budgetLevelFor } from '../_shared/ai/budget.ts';
+import { isEditorPersonaId } from '../_shared/ai/editorPersonas.ts';
+import { getActivePromptTemplate, normalizePromptTemplates, normalizeStyleRules } from '../_shared/ai/promptTemplates.ts';
+import { normalizeBannedPhrases } from '../_shared/ai/bannedPhrases.ts';
+import { toAIServiceError, type AIErrorKind } from '../_shared/ai/errors.ts';
+import { getProvider, isProviderConfigured, type TokenUsage } from '../_shared/ai/providers.ts';
+import { generateSuggestionsWithProvider, type SuggestionEngineRequest } from '../_shared/ai/suggestionEngine.ts';
+
+interface SuggestRequestBody {
+  content?: unknown;
+  suggestionType?: SuggestionEngineRequest['suggestionType'];
+  persona?: unknown;
+  documentContext?: SuggestionEngineRequest['documentContext'];
+  // Document the request is for; usage is recorded against it
+  documentId?: unknown;
+  stream?: boolean;
+}
+
+// Status codes the client maps back to error kinds (see OpenAIService)
+const STATUS_BY_KIND: Partial<Record<AIErrorKind, number>> = {
+  auth: 401,
+  quota: 402,
+  'rate-limit': 429,
+  network: 504,
+  server: 503,
+};
+
+const errorResponse = (error: unknown) => {
+  const { message, kind, retryAfterMs } = toAIServiceError(error);
+  return jsonResponse(
+    { error: message, kind, retryAfterMs },
+    STATUS_BY_KIND[kind] ?? 502,
+    retryAfterMs !== undefined ? { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) } : {}
+  );
+};
+
+// Calling a user-supplied base URL from the server is only safe where that URL
+// can't reach anything private, e.g. when running the function locally
+const allowCustomBaseUrl = Deno.env.get('AI_ALLOW_CUSTOM_BASE_URL') === 'true';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  if (!getBearerToken(req)) {
+    return jsonResponse({ error: 'You need to be signed in to get AI suggestions', kind: 'auth' }, 401);
+  }
+
+  const supabase = createAdminClient();
+
+  const user = await getUserFromRequest(supabase, req);
+  if (!user) {
+    return jsonResponse({ error: 'Your session has expired. Please sign in again.', kind: 'auth' }, 401);
+  }
+
+  let body: SuggestRequestBody;
+  try {
+    body = await req.json();
+  } catch (error) {
+    return jsonResponse({ error: 'Request body must be JSON' }, 400);
+  }
+
+  if (typeof body.content !== 'string') {
+    return jsonResponse({ error: '"content" must be a string' }, 400);
+  }
+
+  const { data: settings, error: settingsError } = await supabase
+    .from('user_settings')
+    .select('*')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (settingsError) {
+    console.error('Error loading settings:', settingsError);
+    return jsonResponse({ error: 'Failed to load AI settings' }, 500);
+  }
+
+  const provider = getProvider(settings?.ai_provider);
+
+  let apiKey: string;
+  try {
+    apiKey = await resolveApiKey(supabase, settings, provider.id);
+  } catch (error) {
+    console.error('Error decrypting API key:', error);
+    return jsonResponse({ error: `Your ${provider.label} API key could not be read. Please enter it again in Settings.`, kind: 'auth' }, 500);
+  }
+
+  if (!isProviderConfigured({ provider: provider.id, hasApiKey: !!apiKey.trim() })) {
+    return jsonResponse({ error: `No ${provider.label} API key configured. Add one in Settings.`, kind: 'auth' }, 400);
+  }
+
+  if (provider.id === 'openai-compatible' && !allowCustomBaseUrl) {
+    return jsonResponse({ error: 'Custom OpenAI-compatible servers are disabled on this deployment' }, 403);
+  }
+
+  // The client stops automatic requests before the cap; this is the hard stop
+  // for anything that still gets through, e.g. a tab that was left open
+  let model = settings?.ai_model || provider.defaultModel;
+  const budget = settings?.monthly_budget_usd ?? null;
+  if (budget !== null) {
+    let spent: number;
+    try {
+      spent = await getMonthlySpend(supabase, user.id);
+    } catch (error) {
+      console.error('Error loading monthly spend:', error);
+      return jsonResponse({ error: 'Failed to check your monthly AI budget' }, 500);
+    }
+
+    const level = budgetLevelFor(spent, Number(budget));
+    if (level === 'off') {
+      return jsonResponse({
+        error: `Your monthly AI budget of $${Number(budget).toFixed(2)} has been reached. Raise it in Settings or wait until next month.`,
+        kind: 'quota',
+      }, 402);
+    }
+    if (level === 'economy' && provider.economyModel) {
+      model = provider.economyModel;
+    }
+  }
+
+  const documentId = await resolveOwnedDocumentId(supabase, user.id, body.documentId);
+
+  // Providers report usage even for responses that later fail validation, so
+  // it is recorded whether or not the request succeeds
+  let usage: TokenUsage | null = null;
+  const saveUsage = async () => {
+    if (usage) {
+      await recordUsage(supabase, {
+        userId: user.id,
+        documentId,
+        provider: provider.id,
+        model,
+        suggestionType: body.suggestionType || 'general',
+        usage,
+      });
+    }
+  };
+
+  // Prompt templates, style rules, banned phrases and suggestion feedback come
+  // from the database rather than the request body, so they apply to every client
+  const promptTemplate = getActivePromptTemplate(
+    normalizePromptTemplates(settings?.prompt_templates),
+    settings?.active_prompt_template_id
+  );
+
+  const engineRequest: SuggestionEngineRequest = {
+    content: body.content,
+    suggestionType: body.suggestionType,
+    persona: isEditorPersonaId(body.persona) ? body.persona : undefined,
+    documentContext: body.documentContext,
+    promptTemplate: promptTemplate?.body,
+    styleRules: normalizeStyleRules(settings?.style_rules),
+    bannedPhrases: normalizeBannedPhrases(settings?.banned_phrases),
+    feedbackProfile: await getFeedbackProfile(supabase, user.id),
+    // Aborted when the client disconnects, so cancelled requests stop costing tokens
+    signal: req.signal,
+    onUsage: (reported) => {
+      usage = reported;
+    },
+    provider: {
+      provider: provider.id,
+      model,
+      apiKey,
+      baseUrl: provider.id === 'openai-compatible' ? settings?.ai_base_url || undefined : undefined,
+    },
+  };
+
+  if (!body.stream) {
+    try {
+      const suggestions = await generateSuggestionsWithProvider(engineRequest);
+      return jsonResponse({ suggestions });
+    } catch (error) {
+      return errorResponse(error);
+    } finally {
+      await saveUsage();
+    }
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      // Nobody is listening once the client has gone away
+      const send = (event: unknown) => {
+        if (!req.signal.aborted) {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        }
+      };
+
+      try {
+        const suggestions = await generateSuggestionsWithProvider({
+          ...engineRequest,
+          onSuggestion: (suggestion) => send({ type: 'suggestion', suggestion }),
+        });
+        send({ type: 'done', suggestions });
+      } catch (error) {
+        const { message, kind, retryAfterMs } = toAIServiceError(error);
+        send({ type: 'error', message, kind, retryAfterMs });
+      } finally {
+        await saveUsage();
+        if (!req.signal.aborted) {
+          controller.close();
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+    },
+  });
+});
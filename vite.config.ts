@@ -15,6 +15,8 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // Modules shared with the Edge Functions; see docs/AI_PROXY.md
+      "@shared": path.resolve(__dirname, "./supabase/functions/_shared"),
     },
   },
 }));